@@ -5,6 +5,8 @@ export default {
     extensionsToTreatAsEsm: [".ts"],
     moduleNameMapper: {
         "^(\\.{1,2}/.*)\\.js$": "$1",
+        // p-limit импортирует встроенный модуль через "#async_hooks", jest такие импорты не разрешает
+        "^#async_hooks$": "node:async_hooks",
     },
     transform: {
         "^.+\\.tsx?$": [
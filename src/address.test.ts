@@ -0,0 +1,99 @@
+import { parseAddress, normalizeAddress } from "./address.js";
+
+describe("parseAddress", () => {
+    it("should parse feed addresses", () => {
+        expect(parseAddress("Санкт-Петербург, Лесной проспект, 61, корп. 3")).toEqual({
+            city: "санкт-петербург",
+            street: "лесной",
+            streetType: "проспект",
+            house: "61",
+            building: "3",
+        });
+        expect(parseAddress("Санкт-Петербург, 7-я Красноармейская улица, 23")).toEqual({
+            city: "санкт-петербург",
+            street: "7-я красноармейская",
+            streetType: "улица",
+            house: "23",
+        });
+    });
+
+    it("should parse Yandex-style addresses with abbreviations and a different order", () => {
+        expect(parseAddress("Лесной пр-т, 61к3, Санкт-Петербург")).toEqual({
+            city: "санкт-петербург",
+            street: "лесной",
+            streetType: "проспект",
+            house: "61",
+            building: "3",
+        });
+        expect(parseAddress("Россия, 194100, г. Санкт-Петербург, пр. Лесной, д. 61, к. 3")).toEqual({
+            city: "санкт-петербург",
+            street: "лесной",
+            streetType: "проспект",
+            house: "61",
+            building: "3",
+        });
+    });
+
+    it("should parse structure, letter and settlements", () => {
+        expect(parseAddress("Ленинградская область, пос. Шушары, Московское ш., 13 стр. 2")).toEqual({
+            city: "шушары",
+            street: "московское",
+            streetType: "шоссе",
+            house: "13",
+            structure: "2",
+        });
+        expect(parseAddress("СПб, ул. Савушкина, 126А лит. Б")).toEqual({
+            city: "санкт-петербург",
+            street: "савушкина",
+            streetType: "улица",
+            house: "126а",
+            letter: "б",
+        });
+    });
+
+    it("should parse streets without type and house ranges", () => {
+        expect(parseAddress("Санкт-Петербург, Пушкинская 19")).toEqual({ city: "санкт-петербург", street: "пушкинская", house: "19" });
+        expect(parseAddress("Ленинградская область, Шлиссельбург, улица 1 Мая, 8")).toMatchObject({ street: "1 мая", house: "8" });
+        expect(parseAddress("Фермское шоссе, 35-37Б, Санкт-Петербург").house).toBe("35-37б");
+        expect(parseAddress("Марата 54/34,А, Санкт-Петербург")).toMatchObject({ street: "марата", house: "54/34а" });
+    });
+
+    it("should keep a district without type out of the street", () => {
+        expect(parseAddress("Санкт-Петербург, Колпино, проспект Ленина, 18/12")).toEqual({
+            city: "санкт-петербург",
+            locality: "колпино",
+            street: "ленина",
+            streetType: "проспект",
+            house: "18/12",
+        });
+        expect(parseAddress("Санкт-Петербург, Кудрово, Европейский проспект, 14к2")).toMatchObject({
+            locality: "кудрово",
+            street: "европейский",
+            house: "14",
+            building: "2",
+        });
+        expect(parseAddress("Санкт-Петербург, Пушкин, Конюшенная 38/44")).toMatchObject({ locality: "пушкин", street: "конюшенная", house: "38/44" });
+        expect(parseAddress("Санкт-Петербург, г. Колпино, проспект Ленина, 18/12")).toMatchObject({ locality: "колпино", street: "ленина" });
+    });
+});
+
+describe("normalizeAddress", () => {
+    it("should ignore formatting differences", () => {
+        const feed = normalizeAddress("Санкт-Петербург, Лесной проспект, 61, корп. 3");
+        expect(feed).toBe("лесной проспект 61 к3");
+        expect(normalizeAddress("г. Санкт-Петербург, пр-т Лесной, д. 61 корпус 3")).toBe(feed);
+        expect(normalizeAddress("Санкт-Петербург, Лесной проспект, 61, 3")).toBe(feed);
+    });
+
+    it("should keep real differences", () => {
+        expect(normalizeAddress("Санкт-Петербург, Лесной проспект, 63")).not.toBe(normalizeAddress("Санкт-Петербург, Лесной проспект, 61"));
+    });
+
+    it("should keep the street of a district address", () => {
+        expect(normalizeAddress("Санкт-Петербург, Пушкин, Октябрьский бульвар, 20")).toBe("октябрьский бульвар 20");
+    });
+
+    it("should fall back to plain text for unparsed addresses", () => {
+        expect(normalizeAddress("Гостиный двор")).toBe("гостиный двор");
+    });
+});
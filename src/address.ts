@@ -0,0 +1,181 @@
+/**
+ * Нормализация российских адресов: сокращения (пр-т/проспект, корп./к., д., ул.),
+ * порядок частей («пр-т Лесной» / «Лесной проспект»), префиксы города и региона
+ */
+
+export type ParsedAddress = {
+    city?: string; // первый упомянутый населённый пункт
+    locality?: string; // район или пригород внутри города: «колпино», «пушкин»
+    street?: string; // название улицы без типа: «лесной», «7-я красноармейская»
+    streetType?: string; // «проспект», «улица»; в фиде тип иногда опущен («Пушкинская 19»)
+    house?: string; // «61», «61а», «12/2», «35-37б»
+    building?: string; // корпус
+    structure?: string; // строение
+    letter?: string; // литера
+};
+
+// Тип улицы: варианты написания -> каноническое название
+const STREET_TYPES: Record<string, string> = {
+    улица: "улица",
+    ул: "улица",
+    проспект: "проспект",
+    просп: "проспект",
+    "пр-т": "проспект",
+    "пр-кт": "проспект",
+    пр: "проспект",
+    переулок: "переулок",
+    пер: "переулок",
+    шоссе: "шоссе",
+    ш: "шоссе",
+    бульвар: "бульвар",
+    бул: "бульвар",
+    "б-р": "бульвар",
+    площадь: "площадь",
+    пл: "площадь",
+    набережная: "набережная",
+    наб: "набережная",
+    проезд: "проезд",
+    "пр-д": "проезд",
+    линия: "линия",
+    аллея: "аллея",
+    дорога: "дорога",
+    дор: "дорога",
+    тупик: "тупик",
+    территория: "территория",
+    тер: "территория",
+};
+
+// Тип населённого пункта перед названием («г. Санкт-Петербург», «посёлок Шушары») или после («Шушары п»)
+const LOCALITY_PREFIXES = new Set(["г", "город", "пос", "поселок", "п", "пгт", "гп", "дер", "деревня", "село"]);
+const LOCALITY_SUFFIXES = new Set(["г", "п"]);
+
+const CITY_ALIASES: Record<string, string> = { спб: "санкт-петербург", "с-петербург": "санкт-петербург", мск: "москва" };
+
+// Части адреса, не влияющие на сравнение: страна, регион, район, поселение, микрорайон
+const REGION_RE = /(россия|федеральный округ|область|обл\.|край|республика|район|р-н|муниципальный округ|поселение|микрорайон)/;
+
+const HOUSE_TOKEN_RE = /^(д|дом|к|корп|корпус|с|стр|строение|лит|литер|литера|[а-я]|\d+([/-]\d+)?[а-я]?(к\d+|с\d+)?)$/;
+
+/**
+ * Разбор адреса на части. Неизвестные части (район, регион) отбрасываются
+ */
+export function parseAddress(text: string | undefined): ParsedAddress {
+    const s = (text || "")
+        .toLowerCase()
+        .replace(/ё/g, "е")
+        .replace(/[–—]/g, "-")
+        .replace(/(?<!\d)\d{6}(?!\d)/g, ""); // почтовый индекс
+
+    const result: ParsedAddress = {};
+    const tail: string[] = [];
+    // Улица взята из части без типа и без цифр: это может быть район («Колпино»), если дальше встретится улица
+    let untypedStreet = false;
+    const takeStreet = () => {
+        if (untypedStreet) result.locality ??= result.street;
+        untypedStreet = false;
+    };
+
+    for (const part of s.split(/[,;]/).map((p) => p.trim())) {
+        if (!part || REGION_RE.test(part)) continue;
+
+        const words = part
+            .replace(/\.(?=\S)/g, ". ")
+            .split(/\s+/)
+            .map((t) => t.replace(/\.$/, ""))
+            .filter((w) => w !== "городской");
+        const hasDigits = /\d/.test(part);
+
+        // Населённый пункт: «г. Санкт-Петербург», «Шушары п», «СПб»
+        const locality =
+            CITY_ALIASES[words.join(" ")] ??
+            (words.length > 1 && LOCALITY_PREFIXES.has(words[0]) && !HOUSE_TOKEN_RE.test(words[1]) ? words.slice(1).join(" ") : undefined) ??
+            (words.length > 1 && LOCALITY_SUFFIXES.has(words[words.length - 1]) && !hasDigits ? words.slice(0, -1).join(" ") : undefined);
+        if (locality) {
+            if (!result.city) result.city = CITY_ALIASES[locality] ?? locality;
+            else result.locality ??= locality;
+            continue;
+        }
+
+        // Номер дома в конце части уходит в хвост: «Лесной проспект 61к3», но «улица 1 Мая»
+        let houseAt = words.length;
+        const isHouseToken = (w: string) => HOUSE_TOKEN_RE.test(w) && !STREET_TYPES[w];
+        while (houseAt > 0 && isHouseToken(words[houseAt - 1]) && (houseAt > 1 || result.street)) houseAt--;
+        const head = words.slice(0, houseAt);
+
+        // Улица: часть с типом улицы
+        const typeAt = head.findIndex((w) => STREET_TYPES[w]);
+        if (typeAt !== -1 && head.length > 1 && (!result.street || untypedStreet)) {
+            takeStreet();
+            result.street = head.filter((_, i) => i !== typeAt).join(" ");
+            result.streetType = STREET_TYPES[head[typeAt]];
+            tail.push(...words.slice(houseAt));
+            continue;
+        }
+
+        // Улица без типа с номером дома: «Пушкинская 19», «Марата 54/34»
+        if (hasDigits && head.length && houseAt < words.length && (!result.street || untypedStreet)) {
+            takeStreet();
+            result.street = head.join(" ");
+            tail.push(...words.slice(houseAt));
+            continue;
+        }
+
+        // Часть без цифр и без обозначений дома: город без типа («Санкт-Петербург»), затем улица без типа («Заречная»)
+        // или район («Колпино») — его заменит улица, если она идёт следом
+        if (!hasDigits && head.length) {
+            if (!result.city) result.city = head.join(" ");
+            else if (!result.street) {
+                result.street = head.join(" ");
+                untypedStreet = true;
+            }
+            continue;
+        }
+
+        tail.push(part);
+    }
+
+    return { ...result, ...parseHouse(tail.join(" ")) };
+}
+
+/**
+ * Номер дома, корпус, строение и литера из хвоста адреса: «д. 61, корп. 3», «61к3», «23, 2», «15 лит. А»
+ */
+function parseHouse(text: string): Pick<ParsedAddress, "house" | "building" | "structure" | "letter"> {
+    const result: Pick<ParsedAddress, "house" | "building" | "structure" | "letter"> = {};
+    let rest = ` ${text.replace(/\./g, " ")} `;
+
+    const take = (re: RegExp) => {
+        const m = rest.match(re);
+        if (!m) return undefined;
+        rest = rest.replace(m[0], " ");
+        return m[1];
+    };
+
+    result.building = take(/(?<=[\s\d])(?:корпус|корп|к)\s*(\d+[а-я]?)(?![\d])/);
+    result.structure = take(/(?<=[\s\d])(?:строение|стр|с)\s*(\d+)(?![\d])/);
+    result.letter = take(/(?<=[\s\d])(?:литера|литер|лит)\s*([а-я])(?![а-я])/);
+    result.house = take(/(?<![а-я\d-])(?:дом|д)?\s*(\d+(?:[/-]\d+)?(?:\s?[а-я](?![а-я]))?)(?![\d/-])/)?.replace(/\s/g, "");
+    // «Лесной проспект, 23, 2» — второй номер в фиде означает корпус
+    if (result.house && !result.building) result.building = take(/(?<![а-я\d-])(\d+)(?![\d-])/);
+
+    return Object.fromEntries(Object.entries(result).filter(([, v]) => v)) as typeof result;
+}
+
+/**
+ * Каноническая запись адреса без города: «лесной проспект 61 к3». Пригодна для нечёткого сравнения;
+ * нераспознанный адрес возвращается приведённым к нижнему регистру без пунктуации
+ */
+export function normalizeAddress(text: string | undefined): string {
+    const a = parseAddress(text);
+    if (!a.street && !a.house) {
+        return (text || "")
+            .toLowerCase()
+            .replace(/ё/g, "е")
+            .replace(/[.,;:()«»"]/g, " ")
+            .replace(/\s+/g, " ")
+            .trim();
+    }
+    return [a.street, a.streetType, a.house, a.building && `к${a.building}`, a.structure && `с${a.structure}`, a.letter && `лит ${a.letter}`]
+        .filter(Boolean)
+        .join(" ");
+}
@@ -2,6 +2,8 @@ import { promises as fs } from "fs";
 import puppeteer from "puppeteer";
 import type { YandexBranch, SimpleChange } from "./yandex.js";
 import { sendMessage, sendDocument } from "./telegram.js";
+import { summarizeCheckStatuses, formatCheckSummaryLines, type CheckSummary } from "./branch-utils.js";
+import { env } from "./config.js";
 
 // Парсер аргументов командной строки
 function parseArgs() {
@@ -35,6 +37,7 @@ export async function sendAnalysisSummary(stats: ChangeStats): Promise<void> {
         `📊 *Статистика изменений филиалов*`,
         ``,
         `📁 Всего филиалов: ${stats.totalBranches}`,
+        ...formatCheckSummaryLines(stats.checks, env.CHECK_MIN_COVERAGE),
         `📝 Всего изменений: ${stats.totalChanges}`,
         ``,
         `⏱️ *По периодам:*`,
@@ -213,6 +216,7 @@ export type ChangeStats = {
     recentChangesByType24h: Record<string, number>;
     recentChangesByType7d: Record<string, number>;
     branchesAffectedByCategory: Record<CategoryKey, number>;
+    checks: CheckSummary; // результаты чтения страниц изменений: пустая история непроверенного филиала не означает «изменений нет»
 };
 
 /**
@@ -257,6 +261,7 @@ export function analyzeChanges(branches: YandexBranch[]): ChangeStats {
         recentChangesByType24h: {},
         recentChangesByType7d: {},
         branchesAffectedByCategory: {} as Record<CategoryKey, number>,
+        checks: summarizeCheckStatuses(branches.filter((b) => b.changesUrl).map((b) => b.checkStatus)),
     };
 
     for (const branch of branches) {
@@ -265,7 +270,8 @@ export function analyzeChanges(branches: YandexBranch[]): ChangeStats {
 
         if (changes.length > 0) {
             stats.branchesWithChanges++;
-        } else {
+        } else if (!branch.checkStatus || branch.checkStatus === "ok") {
+            // Филиалы, чью историю не удалось прочитать, не считаются филиалами без изменений
             stats.branchesWithoutChanges++;
         }
 
@@ -809,6 +815,10 @@ function generateHTMLReport(stats: ChangeStats, branches: YandexBranch[]): strin
                 <h2>Общая информация</h2>
                 <div class="info-list">
                     <div>Всего филиалов: ${stats.totalBranches}</div>
+                    ${formatCheckSummaryLines(stats.checks, env.CHECK_MIN_COVERAGE)
+                        .filter(Boolean)
+                        .map((line) => `<div>${line}</div>`)
+                        .join("")}
                     <div>С историей изменений: ${stats.branchesWithChanges}</div>
                     <div>Без истории изменений: ${stats.branchesWithoutChanges}</div>
                     <div>Всего изменений: ${stats.totalChanges}</div>
@@ -890,6 +900,8 @@ export function printStats(stats: ChangeStats): void {
     console.log(`│   Уникальных типов изменений:        ${String(stats.uniqueChangeTypes).padStart(6)}` + " ".repeat(22) + "│");
     console.log(`│   Среднее изменений на филиал:       ${String(stats.averageChangesPerBranch).padStart(6)}` + " ".repeat(22) + "│");
     console.log("└" + "─".repeat(68) + "┘");
+    // Строки покрытия длиннее рамки, поэтому выводятся под ней
+    formatCheckSummaryLines(stats.checks, env.CHECK_MIN_COVERAGE).forEach((checkLine) => console.log(`    ${checkLine}`));
 
     // Изменения по периодам
     console.log("\n┌" + "─".repeat(68) + "┐");
@@ -1027,6 +1039,18 @@ export function getBranchesByCategory(branches: YandexBranch[], category: Catego
     return branches.filter((branch) => (branch.changesHistory || []).some((c) => getCategoryForChangeType(c.title) === category));
 }
 
+/**
+ * Подпись к PDF-отчёту: дата и покрытие проверки филиалов
+ */
+export function reportCaption(stats: ChangeStats): string {
+    return [
+        `📊 Отчёт по изменениям филиалов`,
+        new Date().toLocaleDateString("ru-RU"),
+        ``,
+        ...formatCheckSummaryLines(stats.checks, env.CHECK_MIN_COVERAGE),
+    ].join("\n");
+}
+
 /**
  * Главная функция для запуска анализа
  */
@@ -1046,7 +1070,7 @@ export async function runAnalysis(filePath?: string, options?: { pdf?: string; t
         // Отправляем PDF в Telegram если включён флаг telegram
         if (options?.telegram) {
             console.log("📤 Отправляем PDF в Telegram...");
-            await sendDocument(options.pdf, `📊 Отчёт по изменениям филиалов\n${new Date().toLocaleDateString("ru-RU")}`);
+            await sendDocument(options.pdf, reportCaption(stats));
             console.log("✅ PDF отправлен!");
         }
     }
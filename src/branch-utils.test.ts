@@ -6,6 +6,8 @@ import {
     isWorkScheduleTitle,
     formatWorkScheduleDiffLines,
     createSnapshot,
+    summarizeCheckStatuses,
+    formatCheckSummaryLines,
     PUBLISHED_STATUSES,
     type BranchSnapshot,
     type BranchLike,
@@ -71,6 +73,11 @@ describe("normalizeDiffTimeValue", () => {
     it("should keep unrelated text and normalize embedded range", () => {
         expect(normalizeDiffTimeValue("пн-вс 8-21,55 без выходных")).toBe("пн-вс 8:00–21:55 без выходных");
     });
+
+    it("should leave full HH:MM ranges and separate ranges intact", () => {
+        expect(normalizeDiffTimeValue("Пн-Пт 09:00-22:00")).toBe("Пн-Пт 09:00-22:00");
+        expect(normalizeDiffTimeValue("9-13, 14-18")).toBe("9:00–13:00, 14:00–18:00");
+    });
 });
 
 describe("work schedule diff helpers", () => {
@@ -277,3 +284,35 @@ describe("PUBLISHED_STATUSES", () => {
         expect(PUBLISHED_STATUSES).toContain("active");
     });
 });
+
+describe("summarizeCheckStatuses", () => {
+    it("should count statuses and coverage, ignoring unchecked branches", () => {
+        const summary = summarizeCheckStatuses(["ok", "ok", "failed", "captcha", "login-required", undefined, "ok", "ok"]);
+
+        expect(summary).toEqual({ total: 7, ok: 4, failed: 1, captcha: 1, loginRequired: 1, coverage: 4 / 7 });
+    });
+
+    it("should treat an empty run as full coverage", () => {
+        expect(summarizeCheckStatuses([]).coverage).toBe(1);
+    });
+});
+
+describe("formatCheckSummaryLines", () => {
+    it("should list failure counts by reason", () => {
+        const lines = formatCheckSummaryLines(summarizeCheckStatuses(["ok", "ok", "ok", "ok", "ok", "ok", "ok", "ok", "ok", "captcha"]), 0.8);
+
+        expect(lines).toEqual(["Проверено успешно: 9 из 10 (90%)", "Не удалось проверить: 1 (капча: 1)"]);
+    });
+
+    it("should warn when coverage drops below the threshold", () => {
+        const lines = formatCheckSummaryLines(summarizeCheckStatuses(["ok", "failed", "failed", "login-required"]), 0.8);
+
+        expect(lines[0]).toBe("Проверено успешно: 1 из 4 (25%)");
+        expect(lines[1]).toBe("Не удалось проверить: 3 (ошибка: 2, нужен вход: 1)");
+        expect(lines.join("\n")).toContain("🚨 Проверка неполная: успешно проверено 25% филиалов при пороге 80%");
+    });
+
+    it("should not warn when everything was checked", () => {
+        expect(formatCheckSummaryLines(summarizeCheckStatuses(["ok", "ok"]), 0.8)).toEqual(["Проверено успешно: 2 из 2 (100%)"]);
+    });
+});
@@ -61,11 +61,12 @@ export function formatChangeTime(timestamp: string | undefined): string {
 
 /**
  * Нормализация записи времени в diff (например, "8-21,55" -> "8:00–21:55")
+ * Уже полные интервалы вида "09:00-22:00" не затрагиваются
  */
 export function normalizeDiffTimeValue(value: string | undefined): string {
     if (!value) return "";
 
-    return value.replace(/\b(\d{1,2})\s*[-–]\s*(\d{1,2})(?:\s*,\s*(\d{1,2}))?\b/g, (_match, startHour, endHour, endMinute) => {
+    return value.replace(/(?<![\d:.,])(\d{1,2})\s*[-–]\s*(\d{1,2})(?:\s*,\s*(\d{1,2})(?!\s*[-–\d]))?(?![\d:.])/g, (_match, startHour, endHour, endMinute) => {
         const start = `${startHour}:00`;
         const end = `${endHour}:${(endMinute ?? "00").padStart(2, "0")}`;
         return `${start}–${end}`;
@@ -100,3 +101,74 @@ export function createSnapshot<T extends BranchLike>(branches: T[]): BranchSnaps
             address: b.address,
         }));
 }
+
+/**
+ * Результат проверки истории изменений филиала
+ */
+export type CheckStatus = "ok" | "failed" | "captcha" | "login-required";
+
+export type CheckSummary = {
+    total: number;
+    ok: number;
+    failed: number;
+    captcha: number;
+    loginRequired: number;
+    coverage: number; // доля успешно проверенных, 0..1
+};
+
+const CHECK_STATUS_LABELS: Record<CheckStatus, string> = {
+    ok: "проверен",
+    failed: "ошибка",
+    captcha: "капча",
+    "login-required": "нужен вход",
+};
+
+export function checkStatusLabel(status: CheckStatus): string {
+    return CHECK_STATUS_LABELS[status];
+}
+
+/**
+ * Подсчёт результатов проверки; филиалы без статуса (не проверялись) не учитываются
+ */
+export function summarizeCheckStatuses(statuses: (CheckStatus | undefined)[]): CheckSummary {
+    const checked = statuses.filter((s): s is CheckStatus => s !== undefined);
+    const count = (status: CheckStatus) => checked.filter((s) => s === status).length;
+    const ok = count("ok");
+
+    return {
+        total: checked.length,
+        ok,
+        failed: count("failed"),
+        captcha: count("captcha"),
+        loginRequired: count("login-required"),
+        coverage: checked.length > 0 ? ok / checked.length : 1,
+    };
+}
+
+/**
+ * Строки отчёта о покрытии проверки: успешные, неудачные по причинам и предупреждение,
+ * если доля успешных ниже minCoverage
+ */
+export function formatCheckSummaryLines(summary: CheckSummary, minCoverage: number): string[] {
+    const percent = (value: number) => `${Math.floor(value * 100)}%`;
+    const lines = [`Проверено успешно: ${summary.ok} из ${summary.total} (${percent(summary.coverage)})`];
+
+    const failures = (
+        [
+            ["failed", summary.failed],
+            ["captcha", summary.captcha],
+            ["login-required", summary.loginRequired],
+        ] as const
+    ).filter(([, count]) => count > 0);
+    if (failures.length > 0) {
+        const total = failures.reduce((sum, [, count]) => sum + count, 0);
+        lines.push(`Не удалось проверить: ${total} (${failures.map(([status, count]) => `${checkStatusLabel(status)}: ${count}`).join(", ")})`);
+    }
+
+    if (summary.total > 0 && summary.coverage < minCoverage) {
+        lines.push(``);
+        lines.push(`🚨 Проверка неполная: успешно проверено ${percent(summary.coverage)} филиалов при пороге ${percent(minCoverage)}.`);
+        lines.push(`Отсутствие изменений по непроверенным филиалам ничего не значит.`);
+    }
+    return lines;
+}
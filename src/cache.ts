@@ -1,10 +1,34 @@
 import { promises as fs } from "fs";
 
-export type Mapping = Record<string, string>; // companyId -> yandexId
+/**
+ * Сопоставление компании из XML с филиалом на Яндекс.Картах
+ * source: auto — найдено мониторингом, manual — закреплено оператором (не перезаписывается автоматически)
+ */
+export type MappingEntry = {
+    yandexId: string;
+    source: "auto" | "manual";
+    updatedAt: string; // ISO
+    confidence?: number; // оценка автоматического сопоставления 0..1
+    ambiguous?: boolean; // был близкий по оценке второй кандидат
+};
+
+export type Mapping = Record<string, MappingEntry>; // companyId -> филиал
+
+export type MappingConflict = {
+    yandexId: string;
+    companyIds: string[];
+};
 
 export async function loadMapping(path: string): Promise<Mapping> {
     try {
-        return JSON.parse(await fs.readFile(path, "utf8"));
+        const data: Record<string, string | MappingEntry> = JSON.parse(await fs.readFile(path, "utf8"));
+        // Старый формат: companyId -> yandexId
+        return Object.fromEntries(
+            Object.entries(data).map(([companyId, value]) => [
+                companyId,
+                typeof value === "string" ? { yandexId: value, source: "auto", updatedAt: new Date(0).toISOString() } : value,
+            ])
+        );
     } catch {
         return {};
     }
@@ -15,6 +39,17 @@ export async function saveMapping(path: string, map: Mapping) {
     await fs.writeFile(path, JSON.stringify(map, null, 2), "utf8");
 }
 
+/**
+ * Филиалы, с которыми сопоставлено несколько компаний
+ */
+export function findMappingConflicts(map: Mapping): MappingConflict[] {
+    const byBranch = new Map<string, string[]>();
+    for (const [companyId, entry] of Object.entries(map)) {
+        byBranch.set(entry.yandexId, [...(byBranch.get(entry.yandexId) ?? []), companyId]);
+    }
+    return [...byBranch].filter(([, companyIds]) => companyIds.length > 1).map(([yandexId, companyIds]) => ({ yandexId, companyIds }));
+}
+
 export async function saveLastRun(path: string, data: any) {
     await fs.mkdir(new URL(".", `file://${path}`), { recursive: true }).catch(() => {});
     await fs.writeFile(path, JSON.stringify(data, null, 2), "utf8");
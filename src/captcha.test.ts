@@ -0,0 +1,90 @@
+import { createCaptchaGate, type CaptchaGateOptions } from "./captcha.js";
+
+function setup(overrides: Partial<CaptchaGateOptions> = {}) {
+    const messages: { text: string; screenshot?: Buffer }[] = [];
+    const sleeps: number[] = [];
+    const gate = createCaptchaGate({
+        headful: false,
+        solveTimeoutMs: 60_000,
+        cooldownMs: 900_000,
+        maxPauses: 2,
+        pollMs: 10_000,
+        notify: async (text, screenshot) => {
+            messages.push({ text, screenshot });
+        },
+        sleep: async (ms) => {
+            sleeps.push(ms);
+        },
+        ...overrides,
+    });
+    return { gate, messages, sleeps };
+}
+
+const encounter = (isSolved: () => Promise<boolean> = async () => false) => ({
+    url: "https://yandex.ru/sprav/1001/p/edit/changes/",
+    screenshot: async () => Buffer.from("png"),
+    isSolved,
+});
+
+describe("createCaptchaGate", () => {
+    it("should alert with a screenshot, cool down and announce the resume", async () => {
+        const { gate, messages, sleeps } = setup();
+
+        expect(await gate.pause(encounter())).toBe("cooled-down");
+        expect(sleeps).toEqual([900_000]);
+        expect(messages[0].text).toContain("SmartCaptcha");
+        expect(messages[0].text).toContain("/sprav/1001/p/edit/changes/");
+        expect(messages[0].screenshot?.toString()).toBe("png");
+        expect(messages[1].text).toBe("▶️ Обход продолжается");
+    });
+
+    it("should wait in headful mode until the operator solves the captcha", async () => {
+        const { gate, sleeps } = setup({ headful: true });
+        let checks = 0;
+
+        expect(await gate.pause(encounter(async () => ++checks === 3))).toBe("solved");
+        expect(sleeps).toEqual([10_000, 10_000]);
+    });
+
+    it("should give up waiting for the operator after the solve timeout", async () => {
+        const { gate, sleeps, messages } = setup({ headful: true });
+
+        expect(await gate.pause(encounter())).toBe("unsolved");
+        expect(sleeps).toHaveLength(6);
+        expect(messages[1].text).toContain("не пройдена");
+    });
+
+    it("should share one pause between concurrent pages", async () => {
+        let release = () => {};
+        const { gate, messages } = setup({ sleep: () => new Promise<void>((resolve) => (release = resolve)) });
+
+        const first = gate.pause(encounter());
+        const second = gate.pause(encounter());
+        let waited = false;
+        const waiting = gate.wait().then(() => (waited = true));
+
+        await new Promise((resolve) => setImmediate(resolve));
+        expect(waited).toBe(false);
+        release();
+
+        expect(await Promise.all([first, second, waiting])).toEqual(["cooled-down", "cooled-down", true]);
+        expect(gate.pauses()).toBe(1);
+        expect(messages.filter((m) => m.text.includes("SmartCaptcha"))).toHaveLength(1);
+    });
+
+    it("should stop pausing once the run's limit is reached", async () => {
+        const { gate, sleeps } = setup();
+
+        await gate.pause(encounter());
+        await gate.pause(encounter());
+        expect(await gate.pause(encounter())).toBe("skipped");
+        expect(sleeps).toHaveLength(2);
+    });
+
+    it("should keep going when the alert cannot be sent", async () => {
+        const { gate, sleeps } = setup({ notify: () => Promise.reject(new Error("network")) });
+
+        expect(await gate.pause(encounter())).toBe("cooled-down");
+        expect(sleeps).toEqual([900_000]);
+    });
+});
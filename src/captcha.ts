@@ -0,0 +1,95 @@
+/**
+ * Пауза обхода при SmartCaptcha: оповещение со скриншотом, затем ожидание оператора
+ * (окно браузера открыто) или пауза на время охлаждения. После паузы обход продолжается
+ * с той же страницы, а не начинается заново
+ */
+
+export type CaptchaEncounter = {
+    url: string;
+    screenshot: () => Promise<Buffer>;
+    isSolved: () => Promise<boolean>; // капча пропала со страницы
+};
+
+/**
+ * solved — оператор прошёл проверку; cooled-down — пауза охлаждения закончилась;
+ * unsolved — оператор не успел за solveTimeoutMs; skipped — лимит пауз за запуск исчерпан
+ */
+export type CaptchaOutcome = "solved" | "cooled-down" | "unsolved" | "skipped";
+
+export type CaptchaGateOptions = {
+    headful: boolean; // окно браузера видно — ждём, пока оператор пройдёт проверку
+    solveTimeoutMs: number;
+    cooldownMs: number; // пауза без окна браузера
+    maxPauses: number; // пауз за запуск, дальше капча только отмечается
+    pollMs?: number;
+    notify: (text: string, screenshot?: Buffer) => Promise<void>;
+    sleep?: (ms: number) => Promise<void>;
+};
+
+export type CaptchaGate = {
+    wait: () => Promise<void>; // дождаться окончания текущей паузы
+    pause: (encounter: CaptchaEncounter) => Promise<CaptchaOutcome>;
+    pauses: () => number;
+};
+
+export function createCaptchaGate(options: CaptchaGateOptions): CaptchaGate {
+    const sleep = options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+    const pollMs = options.pollMs ?? 5000;
+    let active: Promise<CaptchaOutcome> | null = null;
+    let pauses = 0;
+
+    const notify = (text: string, screenshot?: Buffer) =>
+        options.notify(text, screenshot).catch((error) => console.error(`⚠️  Не удалось отправить оповещение о капче: ${error?.message || error}`));
+
+    async function run(encounter: CaptchaEncounter): Promise<CaptchaOutcome> {
+        const minutes = (ms: number) => Math.round(ms / 60000);
+        const screenshot = await encounter.screenshot().catch(() => undefined);
+        const waiting = options.headful
+            ? `Обход приостановлен: пройдите проверку в открытом окне браузера (ждём до ${minutes(options.solveTimeoutMs)} мин).`
+            : `Обход приостановлен на ${minutes(options.cooldownMs)} мин, затем продолжится.`;
+        console.log(`🧩 SmartCaptcha: ${encounter.url}\n   ${waiting}`);
+        await notify(`🧩 SmartCaptcha в кабинете Яндекс.Бизнеса\n${encounter.url}\n\n${waiting}`, screenshot);
+
+        let outcome: CaptchaOutcome = "cooled-down";
+        if (options.headful) {
+            outcome = "unsolved";
+            for (let waited = 0; waited < options.solveTimeoutMs; waited += pollMs) {
+                if (await encounter.isSolved().catch(() => false)) {
+                    outcome = "solved";
+                    break;
+                }
+                await sleep(pollMs);
+            }
+        } else {
+            await sleep(options.cooldownMs);
+        }
+
+        const resumed = outcome === "unsolved" ? "Проверка не пройдена, обход продолжается" : "Обход продолжается";
+        console.log(`▶️  ${resumed}`);
+        await notify(`▶️ ${resumed}`);
+        return outcome;
+    }
+
+    return {
+        wait: async () => {
+            if (active) await active;
+        },
+        pause: async (encounter) => {
+            // Капчу уже обрабатывает другая страница: ждём её, затем страница открывается заново
+            if (active) {
+                await active;
+                return "cooled-down";
+            }
+            if (pauses >= options.maxPauses) return "skipped";
+
+            pauses++;
+            active = run(encounter);
+            try {
+                return await active;
+            } finally {
+                active = null;
+            }
+        },
+        pauses: () => pauses,
+    };
+}
@@ -0,0 +1,74 @@
+import { selectNewChanges, groupChangeRequests, parseChangeTime, cursorHorizon, type ChangeCursor } from "./change-cursors.js";
+
+// История на странице — от новых заявок к старым
+const HISTORY = [
+    { title: "Изменение режима работы", oldValue: "9-22", newValue: "10-22", timestamp: "11-11-2025 · 07:52", author: "ya.robot" },
+    { title: "Изменение телефона", timestamp: "11-11-2025 · 07:52", author: "ya.robot" },
+    { title: "Изменение координат", timestamp: "11-11-2025 · 07:52", author: "rosal.admin" },
+    { title: "Удаление вида деятельности", oldValue: "Бар", timestamp: "10-11-2025 · 18:05", author: "rosal.admin" },
+    { title: "Изменение адреса", timestamp: "01-09-2025 · 10:15", author: "rosal.admin" },
+];
+
+const NOW = new Date(2025, 10, 11, 9, 0);
+
+describe("parseChangeTime", () => {
+    it("should parse cabinet timestamps", () => {
+        expect(parseChangeTime("17-09-2025 · 02:05")).toEqual(new Date(2025, 8, 17, 2, 5));
+        expect(parseChangeTime("вчера")).toBeNull();
+    });
+});
+
+describe("groupChangeRequests", () => {
+    it("should group changes by time and author with stable keys", () => {
+        const requests = groupChangeRequests(HISTORY);
+        expect(requests.map((r) => r.changes.length)).toEqual([2, 1, 1, 1]);
+        expect(groupChangeRequests(HISTORY.slice(2))[0].key).toBe(requests[1].key);
+    });
+});
+
+describe("selectNewChanges", () => {
+    it("should take the last 24 hours on the first run", () => {
+        const { changes, cursor } = selectNewChanges(HISTORY, undefined, NOW);
+        expect(changes.map((c) => c.title)).toEqual(["Изменение режима работы", "Изменение телефона", "Изменение координат", "Удаление вида деятельности"]);
+        expect(cursor).toEqual({
+            timestamp: "11-11-2025 · 07:52",
+            keys: groupChangeRequests(HISTORY)
+                .slice(0, 2)
+                .map((r) => r.key),
+            updatedAt: NOW.toISOString(),
+        });
+    });
+
+    it("should return only requests after the cursor, however late the run", () => {
+        const { cursor } = selectNewChanges(HISTORY.slice(3), undefined, new Date(2025, 10, 10, 19, 0));
+        const later = selectNewChanges(HISTORY, cursor, new Date(2025, 10, 15, 12, 0));
+        expect(later.changes.map((c) => c.title)).toEqual(["Изменение режима работы", "Изменение телефона", "Изменение координат"]);
+    });
+
+    it("should not report the same requests twice", () => {
+        const first = selectNewChanges(HISTORY, undefined, NOW);
+        const second = selectNewChanges(HISTORY, first.cursor, NOW);
+        expect(second.changes).toEqual([]);
+        expect(second.cursor?.keys).toEqual(first.cursor?.keys);
+    });
+
+    it("should catch a request added within the same minute as the cursor", () => {
+        const { cursor } = selectNewChanges(HISTORY.slice(2), undefined, NOW);
+        const { changes, cursor: next } = selectNewChanges(HISTORY, cursor, NOW);
+        expect(changes.map((c) => c.title)).toEqual(["Изменение режима работы", "Изменение телефона"]);
+        expect(next?.keys).toHaveLength(2);
+    });
+
+    it("should keep the cursor when the page is empty or older", () => {
+        const cursor: ChangeCursor = { timestamp: "12-11-2025 · 10:00", keys: ["abc"], updatedAt: NOW.toISOString() };
+        expect(selectNewChanges([], cursor, NOW)).toEqual({ changes: [], cursor });
+        expect(selectNewChanges(HISTORY, cursor, NOW)).toEqual({ changes: [], cursor });
+    });
+});
+
+describe("cursorHorizon", () => {
+    it("should load history back to the cursor, or 24 hours without one", () => {
+        expect(cursorHorizon({ timestamp: "10-11-2025 · 18:05", keys: [], updatedAt: NOW.toISOString() }, NOW)).toEqual(new Date(2025, 10, 10, 18, 5));
+        expect(cursorHorizon(undefined, NOW)).toEqual(new Date(2025, 10, 10, 9, 0));
+    });
+});
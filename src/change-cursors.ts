@@ -0,0 +1,104 @@
+/**
+ * Курсоры истории изменений: для каждого филиала запоминается последняя учтённая заявка,
+ * чтобы следующий обход брал только новые изменения — без повторов и без пропусков,
+ * если запуск задержался
+ */
+
+import { promises as fs } from "fs";
+import { createHash } from "crypto";
+
+export type ChangeCursor = {
+    timestamp: string; // время последней учтённой заявки, как в кабинете: "17-09-2025 · 02:05"
+    keys: string[]; // заявки с этим временем (время в кабинете — с точностью до минуты)
+    updatedAt: string; // ISO
+};
+
+export type ChangeCursors = Record<string, ChangeCursor>; // branchId -> курсор
+
+// Изменение из истории: заявка — подряд идущие изменения с одним временем и автором
+type ChangeItem = { timestamp: string; author?: string; title?: string; oldValue?: string; newValue?: string };
+
+// Без курсора (первый обход филиала) новыми считаются изменения за последние 24 часа
+const FIRST_RUN_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export async function loadChangeCursors(path: string): Promise<ChangeCursors> {
+    try {
+        return JSON.parse(await fs.readFile(path, "utf8"));
+    } catch {
+        return {};
+    }
+}
+
+export async function saveChangeCursors(path: string, cursors: ChangeCursors) {
+    await fs.mkdir(new URL(".", `file://${path}`), { recursive: true }).catch(() => {});
+    await fs.writeFile(path, JSON.stringify(cursors, null, 2), "utf8");
+}
+
+/**
+ * Время изменения из формата кабинета "17-09-2025 · 02:05"
+ */
+export function parseChangeTime(timestamp: string): Date | null {
+    const match = timestamp.match(/(\d{2})-(\d{2})-(\d{4})\s*·\s*(\d{2}):(\d{2})/);
+    if (!match) return null;
+
+    const [, day, month, year, hour, minute] = match;
+    const date = new Date(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute));
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * До какой даты нужна история, чтобы найти новые заявки: время курсора, без курсора — 24 часа назад
+ */
+export function cursorHorizon(cursor: ChangeCursor | undefined, now = new Date()): Date {
+    return (cursor && parseChangeTime(cursor.timestamp)) || new Date(now.getTime() - FIRST_RUN_WINDOW_MS);
+}
+
+/**
+ * Разбиение истории на заявки с ключами; ключ не зависит от положения заявки на странице
+ */
+export function groupChangeRequests<T extends ChangeItem>(changes: T[]): { key: string; timestamp: string; changes: T[] }[] {
+    const requests: { key: string; timestamp: string; changes: T[] }[] = [];
+    for (const change of changes) {
+        const last = requests[requests.length - 1];
+        if (last && last.timestamp === change.timestamp && last.changes[0].author === change.author) last.changes.push(change);
+        else requests.push({ key: "", timestamp: change.timestamp, changes: [change] });
+    }
+    for (const request of requests) {
+        const content = request.changes.map((c) => [c.timestamp, c.author, c.title, c.oldValue, c.newValue]);
+        request.key = createHash("sha1").update(JSON.stringify(content)).digest("hex").slice(0, 12);
+    }
+    return requests;
+}
+
+/**
+ * Изменения из заявок, которых не было на момент курсора, и новый курсор.
+ * Курсор не сдвигается назад: если на странице нет заявок новее, он остаётся прежним
+ */
+export function selectNewChanges<T extends ChangeItem>(
+    changes: T[],
+    cursor: ChangeCursor | undefined,
+    now = new Date()
+): { changes: T[]; cursor?: ChangeCursor } {
+    const requests = groupChangeRequests(changes)
+        .map((r) => ({ ...r, time: parseChangeTime(r.timestamp)?.getTime() }))
+        .filter((r): r is typeof r & { time: number } => r.time !== undefined);
+
+    const cursorTime = cursor ? parseChangeTime(cursor.timestamp)?.getTime() : undefined;
+    const isNew = (r: { key: string; time: number }) => {
+        if (cursorTime === undefined) return r.time >= now.getTime() - FIRST_RUN_WINDOW_MS;
+        return r.time > cursorTime || (r.time === cursorTime && !cursor!.keys.includes(r.key));
+    };
+    const fresh = requests.filter(isNew);
+
+    const latest = Math.max(...requests.map((r) => r.time));
+    if (!requests.length || (cursorTime !== undefined && latest < cursorTime)) {
+        return { changes: fresh.flatMap((r) => r.changes), cursor };
+    }
+
+    const atLatest = requests.filter((r) => r.time === latest);
+    const keys = latest === cursorTime ? [...new Set([...cursor!.keys, ...atLatest.map((r) => r.key)])] : atLatest.map((r) => r.key);
+    return {
+        changes: fresh.flatMap((r) => r.changes),
+        cursor: { timestamp: atLatest[0].timestamp, keys, updatedAt: now.toISOString() },
+    };
+}
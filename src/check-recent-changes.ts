@@ -1,10 +1,10 @@
 // src/check-recent-changes.ts
-// Скрипт для проверки изменений за последние 24 часа и обновления branches.json
+// Скрипт для проверки новых изменений (с прошлой проверки, при первом запуске — за 24 часа) и обновления branches.json
 
 import { promises as fs } from "fs";
-import { ensureYandexAuth, closeBrowser, checkRecentChanges, type YandexBranch } from "./yandex.js";
+import { ensureYandexAuth, closeBrowser, checkRecentChanges, onRateLimited, type YandexBranch } from "./yandex.js";
 import { sendMessage } from "./telegram.js";
-import pLimit from "p-limit";
+import { createCrawlScheduler, formatCrawlStats, type CrawlStats } from "./crawl-scheduler.js";
 import {
     isPublished,
     compareBranchLists,
@@ -12,15 +12,19 @@ import {
     isWorkScheduleTitle,
     formatWorkScheduleDiffLines,
     createSnapshot,
+    summarizeCheckStatuses,
+    formatCheckSummaryLines,
+    checkStatusLabel,
     type BranchSnapshot,
+    type CheckSummary,
 } from "./branch-utils.js";
+import { env } from "./config.js";
+import { loadChangeCursors, saveChangeCursors } from "./change-cursors.js";
 
 const BRANCHES_FILE = "./data/branches.json";
+const CURSORS_FILE = "./data/recent-changes-cursors.json"; // последняя учтённая заявка по каждому филиалу
 const BRANCHES_SNAPSHOT_FILE = "./data/branches-snapshot.json"; // для сравнения количества
 
-// Ограничиваем количество одновременных запросов
-const limit = pLimit(3);
-
 /**
  * Загрузка предыдущего снапшота филиалов
  */
@@ -59,7 +63,10 @@ async function sendCheckReport(
     branchesWithChanges: YandexBranch[],
     addedBranches: YandexBranch[],
     removedBranches: BranchSnapshot[],
-    previousTotal: number
+    previousTotal: number,
+    checkSummary: CheckSummary,
+    failedBranches: YandexBranch[],
+    crawlStats: CrawlStats
 ): Promise<void> {
     const lines: string[] = [];
 
@@ -67,14 +74,19 @@ async function sendCheckReport(
     const hasAnyChanges = withChanges > 0 || addedBranches.length > 0 || removedBranches.length > 0;
     
     if (!hasAnyChanges) {
-        lines.push(`✅ Проверка завершена`);
+        lines.push(failedBranches.length > 0 ? `⚠️ Проверка завершена с ошибками` : `✅ Проверка завершена`);
+        lines.push(``);
+        lines.push(...formatCheckSummaryLines(checkSummary, env.CHECK_MIN_COVERAGE));
         lines.push(``);
-        lines.push(`Проверено филиалов: ${total}`);
-        lines.push(`За последние 24ч изменений не обнаружено.`);
+        lines.push(
+            failedBranches.length > 0
+                ? `У проверенных филиалов новых изменений с прошлой проверки не обнаружено.`
+                : `Новых изменений с прошлой проверки не обнаружено.`
+        );
     } else {
-        lines.push(`⚠️ Обнаружены изменения за 24ч`);
+        lines.push(`⚠️ Обнаружены новые изменения`);
         lines.push(``);
-        lines.push(`Проверено филиалов: ${total}`);
+        lines.push(...formatCheckSummaryLines(checkSummary, env.CHECK_MIN_COVERAGE));
         
         // Показываем изменение количества филиалов
         if (previousTotal > 0 && previousTotal !== total) {
@@ -168,6 +180,24 @@ async function sendCheckReport(
         }
     }
 
+    // Филиалы, которые не удалось проверить: по ним «нет изменений» ничего не значит
+    if (failedBranches.length > 0) {
+        lines.push(``);
+        lines.push(`❗ Не удалось проверить (${failedBranches.length}):`);
+        for (const branch of failedBranches.slice(0, 10)) {
+            lines.push(`  • ${branch.name || branch.id || "?"} — ${checkStatusLabel(branch.checkStatus ?? "failed")}`);
+            if (branch.checkStatus === "failed" && branch.checkError) {
+                lines.push(`    ↳ ${branch.checkError.split("\n")[0].slice(0, 200)}`);
+            }
+        }
+        if (failedBranches.length > 10) {
+            lines.push(`  ... и ещё ${failedBranches.length - 10}`);
+        }
+    }
+
+    lines.push(``);
+    lines.push(formatCrawlStats(crawlStats));
+
     await sendMessage(lines.join("\n"));
 }
 
@@ -223,12 +253,23 @@ export async function checkAllRecentChanges(options: { telegram?: boolean } = {}
 
         let processed = 0;
         let withRecentChanges = 0;
+        let withoutChanges = 0;
 
-        console.log("\n🚀 Начинаем проверку изменений за последние 24 часа...\n");
+        // Курсоры прошлой проверки: новыми считаются заявки после них (без курсора — за 24 часа)
+        const cursors = await loadChangeCursors(CURSORS_FILE);
+
+        console.log("\n🚀 Начинаем проверку новых изменений...\n");
         console.log("💾 Результаты сохраняются в branches.json после каждой проверки\n");
 
+        // Филиалы, проверенные в этом запуске: у остальных в branches.json статус прошлых проверок
+        const checkedIndexes = new Set<number>();
+
+        // Общий планировщик: параллельность, паузы между страницами, замедление при капче и HTTP 429
+        const scheduler = createCrawlScheduler();
+        const stopPacing = onRateLimited((reason) => scheduler.slowDown(reason));
+
         const tasks = branchesWithChanges.map(({ branch, index }) =>
-            limit(async () => {
+            scheduler.schedule(async () => {
                 // Проверяем флаг прерывания
                 if (isShuttingDown) {
                     return;
@@ -237,9 +278,14 @@ export async function checkAllRecentChanges(options: { telegram?: boolean } = {}
                 if (!branch.changesUrl || !branch.id) return;
 
                 try {
-                    const result = await checkRecentChanges(branch.changesUrl, branch.id);
+                    const result = await checkRecentChanges(branch.changesUrl, branch.id, cursors[branch.id]);
                     processed++;
 
+                    // Курсор не сдвигается, если проверка не удалась: заявки попадут в следующую проверку
+                    if (result.cursor && result.checkStatus === "ok") {
+                        cursors[branch.id] = result.cursor;
+                    }
+
                     // Обновляем филиал в массиве и сохраняем файл
                     await updateBranchInFile(branches, index, {
                         hasRecentChanges: result.hasRecentChanges,
@@ -247,20 +293,28 @@ export async function checkAllRecentChanges(options: { telegram?: boolean } = {}
                         lastChangeTime: result.lastChangeTime,
                         recentChangeTypes: result.recentChangeTypes,
                         recentChangeDetails: result.recentChangeDetails,
+                        checkStatus: result.checkStatus,
+                        checkError: result.checkError,
                     });
+                    checkedIndexes.add(index);
 
-                    if (result.hasRecentChanges) {
+                    if (result.checkStatus !== "ok") {
+                        console.log(
+                            `❗ [${processed}/${branchesWithChanges.length}] ${branch.name || branch.id}: проверка не удалась (${checkStatusLabel(result.checkStatus)}) - ${result.checkError}`
+                        );
+                    } else if (result.hasRecentChanges) {
                         withRecentChanges++;
                         const changeTypesStr = result.recentChangeTypes?.length
                             ? ` [${result.recentChangeTypes.slice(0, 3).join(", ")}${result.recentChangeTypes.length > 3 ? "..." : ""}]`
                             : "";
                         console.log(
                             `✅ [${processed}/${branchesWithChanges.length}] ${branch.name || branch.id}: ` +
-                            `${result.recentChangesCount} изменений за 24ч (последнее: ${result.lastChangeTime})${changeTypesStr}`
+                            `${result.recentChangesCount} новых изменений (последнее: ${result.lastChangeTime})${changeTypesStr}`
                         );
                     } else {
+                        withoutChanges++;
                         console.log(
-                            `⚪ [${processed}/${branchesWithChanges.length}] ${branch.name || branch.id}: нет изменений за 24ч` +
+                            `⚪ [${processed}/${branchesWithChanges.length}] ${branch.name || branch.id}: нет новых изменений` +
                             (result.lastChangeTime ? ` (последнее: ${result.lastChangeTime})` : '')
                         );
                     }
@@ -272,30 +326,42 @@ export async function checkAllRecentChanges(options: { telegram?: boolean } = {}
 
                     console.error(`❌ [${processed}/${branchesWithChanges.length}] ${branch.name || branch.id}: ошибка - ${error.message}`);
 
-                    // Даже при ошибке сохраняем отсутствие изменений
+                    // Отмечаем неудачную проверку, чтобы не выдать её за отсутствие изменений
                     await updateBranchInFile(branches, index, {
                         hasRecentChanges: false,
                         recentChangesCount: 0,
                         recentChangeDetails: [],
+                        checkStatus: "failed",
+                        checkError: error.message,
                     });
+                    checkedIndexes.add(index);
                 }
             })
         );
 
         await Promise.all(tasks);
+        stopPacing();
+        const crawlStats = scheduler.stats();
+
+        // Результаты проверки по статусам: успешные, ошибки, капча, вход
+        const checkedBranches = branchesWithChanges.filter(({ index }) => checkedIndexes.has(index)).map(({ index }) => branches[index]);
+        const checkSummary = summarizeCheckStatuses(checkedBranches.map(b => b.checkStatus));
+        const failedBranches = checkedBranches.filter(b => b.checkStatus && b.checkStatus !== "ok");
 
         console.log(`\n✅ Проверка завершена!`);
         console.log(`📊 Статистика:`);
         console.log(`   Всего проверено: ${processed}`);
-        console.log(`   С изменениями за 24ч: ${withRecentChanges}`);
-        console.log(`   Без изменений: ${processed - withRecentChanges}`);
+        console.log(`   С новыми изменениями: ${withRecentChanges}`);
+        console.log(`   Без изменений: ${withoutChanges}`);
+        console.log(`   ${formatCrawlStats(crawlStats)}`);
+        formatCheckSummaryLines(checkSummary, env.CHECK_MIN_COVERAGE).forEach(line => console.log(`   ${line}`));
         console.log(`\n💾 Все данные сохранены в ${BRANCHES_FILE}`);
 
         // Показываем филиалы с изменениями
-        const changedBranches = branches.filter(b => b.hasRecentChanges);
+        const changedBranches = checkedBranches.filter(b => b.hasRecentChanges);
 
         if (withRecentChanges > 0) {
-            console.log(`\n🔥 Филиалы с изменениями за последние 24 часа:`);
+            console.log(`\n🔥 Филиалы с новыми изменениями:`);
             changedBranches.forEach((b, idx) => {
                 const changeTypesStr = b.recentChangeTypes?.length
                     ? `\n      Изменения: ${b.recentChangeTypes.join(", ")}`
@@ -307,7 +373,7 @@ export async function checkAllRecentChanges(options: { telegram?: boolean } = {}
                 );
             });
         } else {
-            console.log(`\n✨ За последние 24 часа изменений не обнаружено`);
+            console.log(`\n✨ Новых изменений не обнаружено`);
         }
 
         // Сохраняем снапшот для следующего сравнения
@@ -323,11 +389,17 @@ export async function checkAllRecentChanges(options: { telegram?: boolean } = {}
                 changedBranches,
                 addedBranches,
                 removedBranches,
-                previousTotal
+                previousTotal,
+                checkSummary,
+                failedBranches,
+                crawlStats
             );
             console.log(`✅ Отчёт отправлен!`);
         }
 
+        // Курсоры сохраняются после отчёта: если отправка не удалась, изменения попадут в следующую проверку
+        await saveChangeCursors(CURSORS_FILE, cursors);
+
     } catch (error: any) {
         console.error(`❌ Ошибка: ${error.message}`);
         throw error;
@@ -0,0 +1,238 @@
+import { compareSchedules, compareWorkingTime, compareContacts, compareCoordinates, compareRubrics, compareAddress, compareName } from "./compare.js";
+import { normalizeXmlWorkingTime } from "./normalize.js";
+
+describe("compareSchedules", () => {
+    it("should accept identical schedules written differently", () => {
+        const xml = normalizeXmlWorkingTime("ежедневн. 09:00 - 22:00");
+        expect(compareSchedules(xml, { text: "Ежедневно, 9:00–22:00" }, 0)).toMatchObject({ ok: true, reasons: [] });
+    });
+
+    it("should require round-the-clock on the map", () => {
+        const xml = normalizeXmlWorkingTime("круглосуточно");
+        expect(compareSchedules(xml, { text: "круглосуточно" }, 0).ok).toBe(true);
+        expect(compareSchedules(xml, { text: "ежедневно 09:00-22:00" }, 0).reasons).toEqual(["Ожидалось: круглосуточно"]);
+    });
+
+    it("should report the exact day that differs", () => {
+        const xml = normalizeXmlWorkingTime("пн-пт 09:00-21:00, сб-вс 10:00-20:00");
+        const result = compareSchedules(xml, { text: "пн-пт 09:00-21:00, сб 10:00-20:00, вс 10:00-18:00" }, 0);
+        expect(result.ok).toBe(false);
+        expect(result.reasons).toEqual(["Вс: ожидалось 10:00-20:00, на картах 10:00-18:00"]);
+        expect(result.targetText).toBe("пн-пт 09:00-21:00; сб-вс 10:00-20:00");
+    });
+
+    it("should compare lunch break intervals day by day", () => {
+        const xml = normalizeXmlWorkingTime("пн-пт 09:00-13:00, 14:00-18:00");
+        const lunchShifted = compareSchedules(xml, { text: "пн-пт 09:00-13:00, 14:30-18:00" }, 0);
+        expect(lunchShifted.reasons).toContain("Пн, интервал 2: ожидалось 14:00-18:00, на картах 14:30-18:00");
+        expect(lunchShifted.reasons).toHaveLength(5);
+
+        const noLunch = compareSchedules(xml, { text: "пн-пт 09:00-18:00" }, 0);
+        expect(noLunch.reasons).toContain("Пн: нет интервала 09:00-13:00 (на картах 09:00-18:00)");
+        expect(noLunch.reasons).toContain("Пн: лишний интервал 09:00-18:00 (ожидалось 09:00-13:00, 14:00-18:00)");
+    });
+
+    it("should report days off mismatch", () => {
+        const xml = normalizeXmlWorkingTime("пн-сб 10:00-19:00, вс выходной");
+        expect(compareSchedules(xml, { text: "ежедневно 10:00-19:00" }, 0).reasons).toEqual(["Вс: ожидался выходной, на картах 10:00-19:00"]);
+    });
+
+    it("should report missing or unrecognized hours", () => {
+        const xml = normalizeXmlWorkingTime("ежедневно 09:00-22:00");
+        expect(compareSchedules(xml, {}, 0).reasons).toEqual(["Режим работы на картах не указан"]);
+        expect(compareSchedules(xml, { text: "уточняйте по телефону" }, 0).reasons).toEqual(["Не распознан формат часов на картах"]);
+        expect(compareSchedules({ is24x7: false, byDay: {} }, { text: "круглосуточно" }, 0).reasons).toEqual(["Не распознан формат часов в XML"]);
+    });
+});
+
+describe("compareSchedules with structured Yandex hours", () => {
+    it("should compare compact sprav format structurally", () => {
+        const xml = normalizeXmlWorkingTime("ежедневн. 08:00 - 21:55");
+        expect(compareSchedules(xml, { text: "Пн-Вс 8-21,55" }, 0).ok).toBe(true);
+    });
+
+    it("should accept a pre-parsed schedule", () => {
+        const xml = normalizeXmlWorkingTime("пн-пт 09:00-18:00");
+        const schedule = normalizeXmlWorkingTime("пн-пт 09:00-18:00");
+        expect(compareSchedules(xml, { schedule }, 0).ok).toBe(true);
+    });
+});
+
+describe("compareSchedules tolerance", () => {
+    const xml = normalizeXmlWorkingTime("ежедневно 09:00-22:00");
+
+    it("should keep zero tolerance strict", () => {
+        const result = compareSchedules(xml, { text: "ежедневно 09:10-22:00" }, 0);
+        expect(result.ok).toBe(false);
+        expect(result.reasons).toHaveLength(7);
+        expect(result.tolerated).toEqual([]);
+    });
+
+    it("should move drift within tolerance to tolerated", () => {
+        const result = compareSchedules(xml, { text: "ежедневно 09:10-21:55" }, 15);
+        expect(result.ok).toBe(true);
+        expect(result.reasons).toEqual([]);
+        expect(result.tolerated).toContain("Пн: ожидалось 09:00-22:00, на картах 09:10-21:55 (отклонение 10 мин, в пределах допуска ±15 мин)");
+    });
+
+    it("should report drift outside tolerance", () => {
+        const result = compareSchedules(xml, { text: "пн-сб 09:00-22:00, вс 09:30-22:00" }, 15);
+        expect(result.ok).toBe(false);
+        expect(result.reasons).toEqual(["Вс: ожидалось 09:00-22:00, на картах 09:30-22:00 (отклонение 30 мин, вне допуска ±15 мин)"]);
+    });
+
+    it("should measure drift across midnight", () => {
+        const night = normalizeXmlWorkingTime("ежедневно 20:00-00:00");
+        expect(compareSchedules(night, { text: "ежедневно 20:00-23:50" }, 15).ok).toBe(true);
+    });
+});
+
+describe("compareWorkingTime", () => {
+    it("should compare raw XML text with Yandex hours text", () => {
+        expect(compareWorkingTime("ежедневн. 09:00 - 22:00", "Ежедневно, 09:00–22:00", 0)).toMatchObject({ ok: true, targetText: "ежедневно 09:00-22:00" });
+        expect(compareWorkingTime("круглосуточно", undefined, 0).reasons).toEqual(["Режим работы на картах не указан"]);
+    });
+});
+
+describe("special hours overrides", () => {
+    const specialHours = { "2026-01-01": "выходной", "2026-01-02": "10:00-18:00" };
+
+    it("should compare only the override day on a holiday", () => {
+        // 2026-01-01 — четверг
+        expect(
+            compareWorkingTime("ежедневн. 09:00 - 22:00", "пн-ср 09:00-22:00, чт выходной, пт-вс 09:00-22:00", 0, { specialHours, date: "2026-01-01" }).ok
+        ).toBe(true);
+
+        const result = compareWorkingTime("ежедневн. 09:00 - 22:00", "ежедневно 09:00-22:00", 0, { specialHours, date: "2026-01-02" });
+        expect(result.ok).toBe(false);
+        expect(result.reasons).toEqual(["Особый режим 2026-01-02, Пт: ожидалось 10:00-18:00, на картах 09:00-22:00"]);
+        expect(result.targetText).toBe("Особый режим 2026-01-02: 10:00-18:00");
+    });
+
+    it("should use the regular week on ordinary days", () => {
+        expect(compareWorkingTime("ежедневн. 09:00 - 22:00", "ежедневно 09:00-22:00", 0, { specialHours, date: "2026-01-05" }).ok).toBe(true);
+    });
+});
+
+describe("compareContacts", () => {
+    const company = {
+        phones: ["+7 (812) 740-11-55"],
+        emails: ["admin@rosal24.ru"],
+        url: "https://rosal24.ru/",
+        addUrls: ["https://t.me/RosAl_Admin_bot", "https://vk.com/rosal24_spb"],
+    };
+
+    it("should accept equal contacts in different formats", () => {
+        const results = compareContacts(company, {
+            phones: ["8 (812) 740-11-55"],
+            emails: ["Admin@rosal24.ru"],
+            urls: ["http://rosal24.ru", "https://vk.com/rosal24_spb/", "t.me/RosAl_Admin_bot"],
+        });
+        expect(results.map((r) => r.field)).toEqual(["Телефон", "E-mail", "Сайт", "Доп. ссылки"]);
+        expect(results.every((r) => r.ok)).toBe(true);
+    });
+
+    it("should report each field separately", () => {
+        const results = compareContacts(company, {
+            phones: ["+7 (812) 999-00-00"],
+            emails: ["admin@rosal24.ru"],
+            urls: ["https://vk.com/rosal24_spb"],
+        });
+        const failed = results.filter((r) => !r.ok);
+        expect(failed.map((r) => r.field)).toEqual(["Телефон", "Сайт", "Доп. ссылки"]);
+        expect(failed[0].reasons).toEqual(["Нет на картах: +7 (812) 740-11-55", "Лишнее на картах: +7 (812) 999-00-00"]);
+        expect(failed[1].reasons).toEqual(["Нет на картах: https://rosal24.ru/"]);
+        expect(failed[2].reasons).toEqual(["Нет на картах: https://t.me/RosAl_Admin_bot"]);
+    });
+
+    it("should skip fields without data on the map", () => {
+        expect(compareContacts(company, {})).toEqual([]);
+    });
+});
+
+describe("compareCoordinates", () => {
+    const company = { lat: 59.93863, lon: 30.31413 };
+
+    it("should accept a pin within the threshold", () => {
+        const result = compareCoordinates(company, { lat: 59.9387, lon: 30.3142 }, 50);
+        expect(result?.ok).toBe(true);
+        expect(result?.field).toBe("Координаты");
+    });
+
+    it("should report drift beyond the threshold", () => {
+        const result = compareCoordinates(company, { lat: 59.9396, lon: 30.3142 }, 50);
+        expect(result?.ok).toBe(false);
+        expect(result?.reasons[0]).toMatch(/^Метка смещена на \d+ м \(допуск 50 м\)$/);
+    });
+
+    it("should skip comparison without coordinates", () => {
+        expect(compareCoordinates(company, {}, 50)).toBeUndefined();
+        expect(compareCoordinates({ lat: NaN, lon: NaN }, { lat: 59.9, lon: 30.3 }, 50)).toBeUndefined();
+    });
+});
+
+describe("compareRubrics", () => {
+    const names = new Map([["184107899", "Магазин"]]);
+
+    it("should match rubrics by id or by known name", () => {
+        expect(compareRubrics(["184107899"], [{ id: "184107899" }, { id: "1" }], names)?.ok).toBe(true);
+        expect(compareRubrics(["184107899"], [{ name: "магазин" }], names)?.ok).toBe(true);
+    });
+
+    it("should report missing rubrics with their names", () => {
+        const result = compareRubrics(["184107899", "184108031"], [{ id: "184108031" }], names);
+        expect(result?.ok).toBe(false);
+        expect(result?.field).toBe("Виды деятельности");
+        expect(result?.reasons).toEqual(["Нет на картах: Магазин (184107899)"]);
+        expect(compareRubrics(["184106384"], [], names)?.reasons).toEqual(["Нет на картах: рубрика 184106384"]);
+    });
+
+    it("should skip comparison without rubrics on the map", () => {
+        expect(compareRubrics(["184107899"], undefined, names)).toBeUndefined();
+    });
+});
+
+describe("compareAddress", () => {
+    const feed = "Санкт-Петербург, Лесной проспект, 61, корп. 3";
+
+    it("should ignore formatting differences", () => {
+        expect(compareAddress(feed, "Лесной просп., 61к3, Санкт-Петербург")?.ok).toBe(true);
+        expect(compareAddress("Санкт-Петербург, Пушкинская 19", "Пушкинская улица, 19, Санкт-Петербург")?.ok).toBe(true);
+    });
+
+    it("should report changed parts of the address", () => {
+        const result = compareAddress(feed, "Санкт-Петербург, Лесной проспект, 63");
+        expect(result?.ok).toBe(false);
+        expect(result?.field).toBe("Адрес");
+        expect(result?.reasons).toEqual(["Дом: ожидалось 61, на картах 63", "Корпус: ожидалось 3, на картах —"]);
+        expect(compareAddress(feed, "Санкт-Петербург, Лесная улица, 61к3")?.reasons).toEqual([
+            "Улица: ожидалось лесной, на картах лесная",
+            "Тип улицы: ожидалось проспект, на картах улица",
+        ]);
+    });
+
+    it("should compare streets of district addresses", () => {
+        const kolpino = "Санкт-Петербург, Колпино, проспект Ленина, 18/12";
+        expect(compareAddress(kolpino, "Санкт-Петербург, Колпино, улица Труда, 18/12")?.reasons).toEqual([
+            "Улица: ожидалось ленина, на картах труда",
+            "Тип улицы: ожидалось проспект, на картах улица",
+        ]);
+        expect(compareAddress(kolpino, "Санкт-Петербург, г. Колпино, просп. Ленина, 18/12")?.ok).toBe(true);
+    });
+
+    it("should skip comparison without an address on the map", () => {
+        expect(compareAddress(feed, undefined)).toBeUndefined();
+    });
+});
+
+describe("compareName", () => {
+    it("should ignore case and quotes", () => {
+        expect(compareName("РосАл", "«РОСАЛ»")?.ok).toBe(true);
+    });
+
+    it("should report name drift", () => {
+        const result = compareName("РосАл", "РосАлко");
+        expect(result?.field).toBe("Название");
+        expect(result?.reasons).toEqual(["Изменение названия: ожидалось «РосАл», на картах «РосАлко»"]);
+    });
+});
@@ -1,47 +1,316 @@
-import { Schedule } from "./normalize.js";
+import { getDistance } from "geolib";
+import { formatRubric, type Rubric, type RubricNames } from "./rubrics.js";
+import { parseAddress, normalizeAddress, type ParsedAddress } from "./address.js";
+import {
+    Schedule,
+    Weekday,
+    Interval,
+    WEEKDAYS,
+    DAY_LABELS,
+    normalizeXmlWorkingTime,
+    normalizeYandexHours,
+    daySchedule,
+    formatIntervals,
+    formatSchedule,
+    toMinutes,
+    weekdayOf,
+    withOverrides,
+    normalizePhone,
+    normalizeEmail,
+    normalizeUrl,
+} from "./normalize.js";
 
 export type CompareResult = {
     ok: boolean;
-    reasons: string[];
+    reasons: string[]; // расхождения вне допуска
+    tolerated?: string[]; // расхождения в пределах допуска
     targetText?: string; // из XML
     actualText?: string; // из Яндекс
 };
 
-export function compareSchedules(xml: Schedule, yHours: { text?: string; avail?: any }, _toleranceMin: number): CompareResult {
-    // Простая стратегия: если XML — 24/7, а у Яндекс не 24/7 → нарушение
-    // Если XML — диапазон одинаковый ежедневно, сравниваем с текстом Яндекс (нормализуя пробелы и тире)
-    const reasons: string[] = [];
+// Результат сравнения отдельного поля карточки (телефон, сайт, режим работы и т.д.)
+export type FieldCompareResult = CompareResult & { field: string };
+
+type DayDiff = { reasons: string[]; tolerated: string[] };
 
-    const norm = (s: string | undefined) => (s || "").toLowerCase().replace(/\s+/g, " ").replace(/[.–—]/g, "-").trim();
+/**
+ * Сравнение расписаний XML и Яндекс
+ * toleranceMin — допустимое отклонение времени открытия/закрытия в минутах (0 — точное совпадение)
+ * date — дата проверки «YYYY-MM-DD»: если для неё в XML задан особый режим, сравнивается только он
+ */
+export function compareSchedules(xml: Schedule, yHours: { text?: string; schedule?: Schedule }, toleranceMin: number, date?: string): CompareResult {
+    if (date) {
+        const override = xml.overrides?.[date];
+        const day = weekdayOf(date);
+        if (override && day) return compareOverride(date, day, override, yHours, toleranceMin);
+    }
+
+    // XML и Яндекс приводятся к Schedule и сравниваются по дням:
+    // для каждого дня недели — набор интервалов (с учётом перерывов)
+    const reasons: string[] = [];
+    const tolerated: string[] = [];
+    const xmlKnown = xml.is24x7 || Object.keys(xml.byDay).length > 0;
+    const actual = yHours.schedule ?? (yHours.text ? normalizeYandexHours(yHours.text) : undefined);
 
-    if (xml.is24x7) {
-        const t = norm(yHours.text);
-        if (!/24\s*\/\s*7|круглосуточно/.test(t)) reasons.push("Ожидалось: круглосуточно");
+    if (!xmlKnown) reasons.push("Не распознан формат часов в XML");
+    else if (!actual) reasons.push("Режим работы на картах не указан");
+    else if (xml.is24x7) {
+        if (!actual.is24x7) reasons.push("Ожидалось: круглосуточно");
+    } else if (!actual.is24x7 && !Object.keys(actual.byDay).length) {
+        reasons.push("Не распознан формат часов на картах");
     } else {
-        // XML: ежедневный интервал
-        const days = Object.values(xml.byDay).filter(Boolean);
-        if (!days.length) reasons.push("Не распознан формат часов в XML");
-        else {
-            const [sample] = days[0]!; // берём первый интервал
-            const t = norm(yHours.text);
-            // жёсткая проверка по тексту (учитывая толеранс = 0 по ТЗ)
-            const expect = `${sample.from}-${sample.to}`;
-            if (!t.includes(expect)) reasons.push(`Ожидалось: ${expect} ежедневно`);
+        for (const day of WEEKDAYS) {
+            const diff = compareDay(day, daySchedule(xml, day), daySchedule(actual, day), toleranceMin);
+            reasons.push(...diff.reasons);
+            tolerated.push(...diff.tolerated);
         }
     }
 
     return {
         ok: reasons.length === 0,
         reasons,
-        targetText: summarizeXml(xml),
+        tolerated,
+        targetText: formatSchedule(xml),
+        actualText: yHours.text,
+    };
+}
+
+/**
+ * Особый режим на дату: сравнивается только соответствующий день недели на картах
+ */
+function compareOverride(
+    date: string,
+    day: Weekday,
+    expected: Interval[],
+    yHours: { text?: string; schedule?: Schedule },
+    toleranceMin: number
+): CompareResult {
+    const reasons: string[] = [];
+    const tolerated: string[] = [];
+    const actual = yHours.schedule ?? (yHours.text ? normalizeYandexHours(yHours.text) : undefined);
+    const prefix = `Особый режим ${date}`;
+
+    if (!actual) reasons.push("Режим работы на картах не указан");
+    else if (!actual.is24x7 && !Object.keys(actual.byDay).length) reasons.push("Не распознан формат часов на картах");
+    else {
+        const diff = compareDay(day, expected, daySchedule(actual, day), toleranceMin);
+        reasons.push(...diff.reasons.map((r) => `${prefix}, ${r}`));
+        tolerated.push(...diff.tolerated.map((r) => `${prefix}, ${r}`));
+    }
+
+    return {
+        ok: reasons.length === 0,
+        reasons,
+        tolerated,
+        targetText: `${prefix}: ${formatIntervals(expected)}`,
         actualText: yHours.text,
     };
 }
 
-function summarizeXml(xml: Schedule) {
-    if (xml.is24x7) return "круглосуточно";
-    const days = Object.values(xml.byDay).filter(Boolean);
-    if (!days.length) return "(не распознано)";
-    const [sample] = days[0]!;
-    return `ежедневно ${sample.from}-${sample.to}`;
+/**
+ * Сравнение режима работы из XML (текст) с текстом часов работы на Яндекс.Картах
+ * specialHours — особый режим по датам (праздничный календарь), date — дата проверки «YYYY-MM-DD»
+ */
+export function compareWorkingTime(
+    workingTime: string,
+    yandexHours: string | undefined,
+    toleranceMin: number,
+    options: { specialHours?: Record<string, string>; date?: string } = {}
+): CompareResult {
+    const schedule = withOverrides(normalizeXmlWorkingTime(workingTime), options.specialHours);
+    return compareSchedules(schedule, { text: yandexHours }, toleranceMin, options.date);
+}
+
+/**
+ * Сравнение интервалов одного дня. Возвращает причины расхождения с указанием дня и интервала
+ */
+function compareDay(day: Weekday, expected: Interval[], actual: Interval[], toleranceMin: number): DayDiff {
+    const label = capitalize(DAY_LABELS[day]);
+    const diff: DayDiff = { reasons: [], tolerated: [] };
+
+    if (!expected.length && !actual.length) return diff;
+    if (!expected.length) return { ...diff, reasons: [`${label}: ожидался выходной, на картах ${formatIntervals(actual)}`] };
+    if (!actual.length) return { ...diff, reasons: [`${label}: ожидалось ${formatIntervals(expected)}, на картах выходной`] };
+
+    if (expected.length === actual.length) {
+        expected.forEach((e, i) => {
+            const drift = intervalDrift(e, actual[i]);
+            if (drift === 0) return;
+            const where = expected.length > 1 ? `${label}, интервал ${i + 1}` : label;
+            const text = `${where}: ожидалось ${formatIntervals([e])}, на картах ${formatIntervals([actual[i]])}`;
+            if (toleranceMin <= 0) diff.reasons.push(text);
+            else if (drift <= toleranceMin) diff.tolerated.push(`${text} (отклонение ${drift} мин, в пределах допуска ±${toleranceMin} мин)`);
+            else diff.reasons.push(`${text} (отклонение ${drift} мин, вне допуска ±${toleranceMin} мин)`);
+        });
+        return diff;
+    }
+
+    // Разное количество интервалов: перечисляем недостающие и лишние (допуск не применяется)
+    const missing = expected.filter((e) => !actual.some((a) => intervalDrift(e, a) === 0));
+    const extra = actual.filter((a) => !expected.some((e) => intervalDrift(e, a) === 0));
+    const onMap = `на картах ${formatIntervals(actual)}`;
+    diff.reasons.push(
+        ...missing.map((e) => `${label}: нет интервала ${formatIntervals([e])} (${onMap})`),
+        ...extra.map((a) => `${label}: лишний интервал ${formatIntervals([a])} (ожидалось ${formatIntervals(expected)})`)
+    );
+    return diff;
+}
+
+/**
+ * Максимальное отклонение времени открытия/закрытия двух интервалов в минутах
+ */
+function intervalDrift(a: Interval, b: Interval): number {
+    return Math.max(minutesApart(a.from, b.from), minutesApart(a.to, b.to));
+}
+
+function minutesApart(a: string, b: string): number {
+    const delta = Math.abs((toMinutes(a) % 1440) - (toMinutes(b) % 1440));
+    return Math.min(delta, 1440 - delta);
+}
+
+/**
+ * Сравнение контактов из XML с карточкой на Яндекс.Картах
+ * Каждое поле — отдельный результат; поля, по которым у карточки нет данных, не сравниваются
+ */
+export function compareContacts(
+    expected: { phones: string[]; emails: string[]; url?: string; addUrls: string[] },
+    actual: { phones?: string[]; emails?: string[]; urls?: string[] }
+): FieldCompareResult[] {
+    const results: FieldCompareResult[] = [];
+
+    if (actual.phones) results.push(compareValues("Телефон", expected.phones, actual.phones, normalizePhone));
+    if (actual.emails) results.push(compareValues("E-mail", expected.emails, actual.emails, normalizeEmail));
+    if (actual.urls) {
+        // На картах сайт и доп. ссылки — один список: сайт ищем в нём, остальное сверяем с add-url
+        const site = expected.url ? normalizeUrl(expected.url) : undefined;
+        if (expected.url) results.push(compareValues("Сайт", [expected.url], actual.urls, normalizeUrl, false));
+        const links = actual.urls.filter((u) => normalizeUrl(u) !== site);
+        results.push(compareValues("Доп. ссылки", expected.addUrls, links, normalizeUrl));
+    }
+
+    return results;
+}
+
+/**
+ * Сравнение наборов значений с нормализацией: недостающие и (опционально) лишние значения
+ */
+function compareValues(field: string, expected: string[], actual: string[], norm: (v: string) => string, reportExtra = true): FieldCompareResult {
+    const expectedSet = new Set(expected.map(norm));
+    const actualSet = new Set(actual.map(norm));
+    const missing = expected.filter((v) => !actualSet.has(norm(v)));
+    const extra = reportExtra ? actual.filter((v) => !expectedSet.has(norm(v))) : [];
+    const reasons = [...missing.map((v) => `Нет на картах: ${v}`), ...extra.map((v) => `Лишнее на картах: ${v}`)];
+
+    return {
+        field,
+        ok: reasons.length === 0,
+        reasons,
+        targetText: expected.join(", ") || "—",
+        actualText: actual.join(", ") || "—",
+    };
+}
+
+/**
+ * Смещение метки на карте относительно координат из XML
+ * thresholdM — допустимое расстояние в метрах; без координат на карте или в XML сравнение не выполняется
+ */
+export function compareCoordinates(
+    expected: { lat: number; lon: number },
+    actual: { lat?: number; lon?: number },
+    thresholdM: number
+): FieldCompareResult | undefined {
+    if (!Number.isFinite(expected.lat) || !Number.isFinite(expected.lon)) return undefined;
+    if (actual.lat === undefined || actual.lon === undefined) return undefined;
+
+    const distance = getDistance({ latitude: expected.lat, longitude: expected.lon }, { latitude: actual.lat, longitude: actual.lon });
+    const reasons = distance > thresholdM ? [`Метка смещена на ${distance} м (допуск ${thresholdM} м)`] : [];
+
+    return {
+        field: "Координаты",
+        ok: reasons.length === 0,
+        reasons,
+        targetText: formatPoint(expected.lat, expected.lon),
+        actualText: formatPoint(actual.lat, actual.lon),
+    };
+}
+
+/**
+ * Рубрики из XML, которых больше нет среди видов деятельности на картах.
+ * Рубрика на картах без id сопоставляется по названию из справочника; лишние рубрики на картах не проверяются
+ */
+export function compareRubrics(expectedIds: string[], actual: Rubric[] | undefined, names: RubricNames): FieldCompareResult | undefined {
+    if (!expectedIds.length || !actual) return undefined;
+
+    const actualIds = new Set(actual.map((r) => r.id).filter(Boolean));
+    const actualNames = new Set(actual.map((r) => r.name?.toLowerCase()).filter(Boolean));
+    const missing = expectedIds.filter((id) => !actualIds.has(id) && !actualNames.has(names.get(id)?.toLowerCase()));
+
+    return {
+        field: "Виды деятельности",
+        ok: missing.length === 0,
+        reasons: missing.map((id) => `Нет на картах: ${formatRubric(id, names)}`),
+        targetText: expectedIds.map((id) => formatRubric(id, names)).join(", "),
+        actualText: actual.map((r) => (r.id ? formatRubric(r.id, names) : r.name)).join(", ") || "—",
+    };
+}
+
+/**
+ * Название карточки на картах должно совпадать с русским названием из XML (без учёта регистра, кавычек и «ё»)
+ */
+export function compareName(expected: string, actual: string | undefined): FieldCompareResult | undefined {
+    if (!actual || !expected || expected === "—") return undefined;
+
+    const norm = (s: string) =>
+        s
+            .toLowerCase()
+            .replace(/ё/g, "е")
+            .replace(/[«»"'“”]/g, "")
+            .replace(/\s+/g, " ")
+            .trim();
+    const reasons = norm(expected) === norm(actual) ? [] : [`Изменение названия: ожидалось «${expected}», на картах «${actual}»`];
+
+    return { field: "Название", ok: reasons.length === 0, reasons, targetText: expected, actualText: actual };
+}
+
+// Части адреса, которые сравниваются, и их подписи в отчёте
+const ADDRESS_PARTS: [keyof ParsedAddress, string][] = [
+    ["street", "Улица"],
+    ["streetType", "Тип улицы"],
+    ["house", "Дом"],
+    ["building", "Корпус"],
+    ["structure", "Строение"],
+    ["letter", "Литера"],
+];
+
+/**
+ * Сравнение адреса из XML с адресом на картах по частям: улица, дом, корпус, строение, литера.
+ * Различия в записи (сокращения, порядок, префикс города) не считаются расхождением.
+ * Населённый пункт не сравнивается: в фиде и на картах указывают разный его уровень («Шушары» / «Санкт-Петербург»)
+ */
+export function compareAddress(expected: string, actual: string | undefined): FieldCompareResult | undefined {
+    if (!actual || !expected || expected === "—") return undefined;
+
+    const a = parseAddress(expected);
+    const b = parseAddress(actual);
+    const reasons: string[] = [];
+
+    if ((!a.street && !a.house) || (!b.street && !b.house)) {
+        if (normalizeAddress(expected) !== normalizeAddress(actual)) reasons.push("Адрес отличается");
+    } else {
+        for (const [part, label] of ADDRESS_PARTS) {
+            // Тип улицы сравнивается, только если указан с обеих сторон («Пушкинская 19»)
+            if (part === "streetType" && (!a.streetType || !b.streetType)) continue;
+            if (a[part] !== b[part]) reasons.push(`${label}: ожидалось ${a[part] ?? "—"}, на картах ${b[part] ?? "—"}`);
+        }
+    }
+
+    return { field: "Адрес", ok: reasons.length === 0, reasons, targetText: expected, actualText: actual };
+}
+
+function formatPoint(lat: number, lon: number) {
+    return `${lat.toFixed(6)}, ${lon.toFixed(6)}`;
+}
+
+function capitalize(s: string) {
+    return s.charAt(0).toUpperCase() + s.slice(1);
 }
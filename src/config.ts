@@ -7,8 +7,30 @@ const Env = z.object({
     BROWSER_HEADLESS: z.string().default("true"),
     AUTH_CHECK_URL: z.string().url().optional(),
     CHAIN_BRANCHES_URL: z.string().url().default("https://yandex.ru/sprav/chain/7877265/branches"),
+    CHANGES_HISTORY_DAYS: z.coerce.number().min(0).default(30), // глубина подгрузки истории изменений филиала
+    CHECK_MIN_COVERAGE: z.coerce.number().min(0).max(1).default(0.9), // доля успешно проверенных филиалов, ниже — предупреждение в отчёте
+    CAPTCHA_SOLVE_TIMEOUT_MS: z.coerce.number().min(0).default(600000), // сколько ждать, пока оператор пройдёт капчу (BROWSER_HEADLESS=false)
+    CAPTCHA_COOLDOWN_MS: z.coerce.number().min(0).default(900000), // пауза после капчи без окна браузера
+    CAPTCHA_MAX_PAUSES: z.coerce.number().int().min(0).default(3), // пауз из-за капчи за запуск, дальше филиалы отмечаются captcha
+    CRAWL_CONCURRENCY: z.coerce.number().int().positive().default(3), // страниц кабинета одновременно
+    CRAWL_MIN_DELAY_MS: z.coerce.number().min(0).default(1000), // пауза между запусками страниц
+    CRAWL_MAX_DELAY_MS: z.coerce.number().min(0).default(60000), // предел замедления при капче и HTTP 429
+    NAV_TIMEOUT_MS: z.coerce.number().positive().default(60000), // таймаут одной попытки перехода в кабинете
+    NAV_RETRIES: z.coerce.number().int().min(0).default(2), // повторов перехода после неудачи
+    NAV_BACKOFF_MS: z.coerce.number().min(0).default(2000), // задержка перед первым повтором, дальше удваивается
+    NAV_ERROR_BUDGET: z.coerce.number().int().positive().default(30), // ошибок перехода за запуск, после — без новых попыток
+    BRANCHES_SOURCE: z.enum(["network", "dom"]).default("network"), // network — ответы API кабинета, dom — разбор страницы
     XML_URL: z.string().url().optional(),
+    FEED_LINT_ABORT: z.string().default("false"), // "true" — не сравнивать при ошибках в фиде
     HTTP_TIMEOUT_MS: z.coerce.number().default(30000),
+    SCHEDULE_TOLERANCE_MIN: z.coerce.number().min(0).default(0),
+    SCHEDULE_TOLERANCE_BY_COMPANY: z.string().optional(), // "1234567:15,7654321:0"
+    HOLIDAYS_FILE: z.string().default("./data/holidays.json"),
+    MAX_DISTANCE_METERS: z.coerce.number().positive().default(500),
+    MATCH_MIN_CONFIDENCE: z.coerce.number().min(0).max(1).default(0.6),
+    MAPPING_FILE: z.string().default("./data/mapping.json"),
+    RUBRICS_FILE: z.string().default("./data/rubrics.json"),
+    COORDS_DRIFT_THRESHOLD_M: z.coerce.number().min(0).default(50),
 });
 
 export const env = Env.parse(process.env);
@@ -17,3 +39,19 @@ export const CHAT_ID =
         ? Number(env.TELEGRAM_CHAT_ID)
         : env.TELEGRAM_CHAT_ID;
 export const AUTH_CHECK_URL = env.AUTH_CHECK_URL ?? env.CHAIN_BRANCHES_URL;
+
+const TOLERANCE_BY_COMPANY = new Map(
+    (env.SCHEDULE_TOLERANCE_BY_COMPANY || "")
+        .split(/[,;\s]+/)
+        .map((pair) => pair.split(":").map((v) => v.trim()))
+        .filter(([id, min]) => id && min && !Number.isNaN(Number(min)))
+        .map(([id, min]) => [id, Number(min)] as const)
+);
+
+/**
+ * Допуск расхождения времени открытия/закрытия (мин) для компании:
+ * значение из SCHEDULE_TOLERANCE_BY_COMPANY, иначе глобальный SCHEDULE_TOLERANCE_MIN
+ */
+export function scheduleToleranceFor(companyId: string): number {
+    return TOLERANCE_BY_COMPANY.get(companyId) ?? env.SCHEDULE_TOLERANCE_MIN;
+}
@@ -0,0 +1,80 @@
+import { createCrawlScheduler, formatCrawlStats } from "./crawl-scheduler.js";
+
+// Виртуальные часы: время стоит на нуле, sleep запоминает, когда задача проснулась бы
+function fakeClock() {
+    const wakeUps: number[] = [];
+    return {
+        now: () => 0,
+        sleep: async (ms: number) => {
+            wakeUps.push(ms);
+        },
+        wakeUps,
+    };
+}
+
+describe("createCrawlScheduler", () => {
+    it("should space task starts by the minimum delay", async () => {
+        const clock = fakeClock();
+        const scheduler = createCrawlScheduler({ concurrency: 3, minDelayMs: 500, maxDelayMs: 10_000, ...clock });
+
+        await Promise.all([1, 2, 3, 4].map(() => scheduler.schedule(async () => {})));
+
+        expect(clock.wakeUps).toEqual([0, 500, 1000, 1500]);
+        expect(scheduler.stats()).toMatchObject({ tasks: 4, slowdowns: 0, delayMs: 500 });
+    });
+
+    it("should limit concurrency", async () => {
+        const scheduler = createCrawlScheduler({ concurrency: 2, minDelayMs: 0, maxDelayMs: 0 });
+        let running = 0;
+        let peak = 0;
+
+        await Promise.all(
+            Array.from({ length: 6 }, () =>
+                scheduler.schedule(async () => {
+                    peak = Math.max(peak, ++running);
+                    await new Promise((resolve) => setImmediate(resolve));
+                    running--;
+                })
+            )
+        );
+
+        expect(peak).toBe(2);
+    });
+
+    it("should slow down on rate limiting up to the maximum delay", async () => {
+        const clock = fakeClock();
+        const scheduler = createCrawlScheduler({ concurrency: 1, minDelayMs: 0, maxDelayMs: 5000, ...clock });
+
+        scheduler.slowDown("HTTP 429");
+        expect(scheduler.stats().delayMs).toBe(1000);
+        scheduler.slowDown("SmartCaptcha");
+        scheduler.slowDown("SmartCaptcha");
+        scheduler.slowDown("SmartCaptcha");
+        expect(scheduler.stats()).toMatchObject({ delayMs: 5000, peakDelayMs: 5000, slowdowns: 4 });
+
+        // Следующая страница — не раньше чем через новую паузу
+        await scheduler.schedule(async () => {});
+        expect(clock.wakeUps).toEqual([5000]);
+    });
+
+    it("should recover the delay after calm pages", async () => {
+        const clock = fakeClock();
+        const scheduler = createCrawlScheduler({ concurrency: 1, minDelayMs: 500, maxDelayMs: 10_000, ...clock });
+
+        scheduler.slowDown("HTTP 429");
+        expect(scheduler.stats().delayMs).toBe(1000);
+        for (let i = 0; i < 20; i++) await scheduler.schedule(async () => {});
+        expect(scheduler.stats()).toMatchObject({ delayMs: 500, peakDelayMs: 1000 });
+    });
+});
+
+describe("formatCrawlStats", () => {
+    it("should report rate and pacing", () => {
+        expect(formatCrawlStats({ tasks: 120, elapsedMs: 843_000, perMinute: 8.54, slowdowns: 0, delayMs: 500, peakDelayMs: 500 })).toBe(
+            "⏱ Обход: 120 стр. за 14 мин 3 с (8.5 в минуту); пауза между запросами 500 мс"
+        );
+        expect(formatCrawlStats({ tasks: 10, elapsedMs: 45_000, perMinute: 13.3, slowdowns: 2, delayMs: 2000, peakDelayMs: 8000 })).toBe(
+            "⏱ Обход: 10 стр. за 45 с (13.3 в минуту); замедлений: 2, пауза между запросами до 8 с, в конце 2 с"
+        );
+    });
+});
@@ -0,0 +1,125 @@
+/**
+ * Общий планировщик обхода кабинета: ограничение параллельности, минимальная пауза между
+ * запусками страниц и автоматическое замедление при признаках ограничения запросов
+ * (капча, HTTP 429). Пауза вдвое растёт при каждом сигнале и постепенно возвращается
+ * к минимальной, пока сигналов нет
+ */
+
+import pLimit from "p-limit";
+import { env } from "./config.js";
+
+export type CrawlSchedulerOptions = {
+    concurrency: number;
+    minDelayMs: number; // пауза между запусками задач
+    maxDelayMs: number; // предел замедления
+    now?: () => number;
+    sleep?: (ms: number) => Promise<void>;
+};
+
+export type CrawlStats = {
+    tasks: number; // завершённых задач
+    elapsedMs: number;
+    perMinute: number;
+    slowdowns: number;
+    delayMs: number; // текущая пауза между запусками
+    peakDelayMs: number;
+};
+
+export type CrawlScheduler = {
+    schedule: <T>(task: () => Promise<T>) => Promise<T>;
+    slowDown: (reason: string) => void;
+    stats: () => CrawlStats;
+};
+
+const SLOWDOWN_FACTOR = 2;
+const SLOWDOWN_MIN_DELAY_MS = 1000; // пауза после первого замедления, если минимальная — 0
+const RECOVER_AFTER_TASKS = 20; // задач подряд без сигналов, после которых пауза сокращается вдвое
+
+/**
+ * Планировщик с настройками CRAWL_* из env; overrides — для тестов и отдельных запусков
+ */
+export function createCrawlScheduler(overrides: Partial<CrawlSchedulerOptions> = {}): CrawlScheduler {
+    const options: CrawlSchedulerOptions = {
+        concurrency: env.CRAWL_CONCURRENCY,
+        minDelayMs: env.CRAWL_MIN_DELAY_MS,
+        maxDelayMs: env.CRAWL_MAX_DELAY_MS,
+        ...overrides,
+    };
+    const now = options.now ?? Date.now;
+    const sleep = options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+    const limit = pLimit(options.concurrency);
+
+    const startedAt = now();
+    let nextStartAt = startedAt;
+    let delayMs = options.minDelayMs;
+    let peakDelayMs = delayMs;
+    let tasks = 0;
+    let slowdowns = 0;
+    let calmTasks = 0;
+
+    return {
+        schedule: (task) =>
+            limit(async () => {
+                // Время запуска резервируется до ожидания, чтобы параллельные задачи не стартовали одновременно
+                const startAt = Math.max(now(), nextStartAt);
+                nextStartAt = startAt + delayMs;
+                await sleep(Math.max(0, startAt - now()));
+
+                try {
+                    return await task();
+                } finally {
+                    tasks++;
+                    calmTasks++;
+                    if (calmTasks >= RECOVER_AFTER_TASKS && delayMs > options.minDelayMs) {
+                        delayMs = Math.max(options.minDelayMs, delayMs / SLOWDOWN_FACTOR);
+                        calmTasks = 0;
+                        console.log(`🐇 Ограничений не было ${RECOVER_AFTER_TASKS} страниц, пауза между запросами: ${formatDelay(delayMs)}`);
+                    }
+                }
+            }),
+        slowDown: (reason) => {
+            slowdowns++;
+            calmTasks = 0;
+            const next = Math.min(options.maxDelayMs, Math.max(delayMs * SLOWDOWN_FACTOR, options.minDelayMs, SLOWDOWN_MIN_DELAY_MS));
+            if (next > delayMs) {
+                console.log(`🐢 ${reason}: пауза между запросами ${formatDelay(delayMs)} → ${formatDelay(next)}`);
+            }
+            delayMs = next;
+            peakDelayMs = Math.max(peakDelayMs, delayMs);
+            nextStartAt = Math.max(nextStartAt, now() + delayMs);
+        },
+        stats: () => {
+            const elapsedMs = now() - startedAt;
+            return {
+                tasks,
+                elapsedMs,
+                perMinute: elapsedMs > 0 ? (tasks * 60000) / elapsedMs : 0,
+                slowdowns,
+                delayMs,
+                peakDelayMs,
+            };
+        },
+    };
+}
+
+function formatDelay(ms: number): string {
+    return ms < 1000 ? `${Math.round(ms)} мс` : `${Math.round(ms / 100) / 10} с`;
+}
+
+function formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    const minutes = Math.floor(seconds / 60);
+    return minutes > 0 ? `${minutes} мин ${seconds % 60} с` : `${seconds} с`;
+}
+
+/**
+ * Строка со скоростью обхода для итогов запуска
+ */
+export function formatCrawlStats(stats: CrawlStats): string {
+    const rate = `${stats.tasks} стр. за ${formatDuration(stats.elapsedMs)} (${stats.perMinute.toFixed(1)} в минуту)`;
+    const pacing =
+        stats.slowdowns > 0
+            ? `замедлений: ${stats.slowdowns}, пауза между запросами до ${formatDelay(stats.peakDelayMs)}, в конце ${formatDelay(stats.delayMs)}`
+            : `пауза между запросами ${formatDelay(stats.delayMs)}`;
+    return `⏱ Обход: ${rate}; ${pacing}`;
+}
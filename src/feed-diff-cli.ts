@@ -0,0 +1,62 @@
+/**
+ * Сравнение двух версий XML-фида
+ *
+ * Использование:
+ *   npm run feed:diff                                  - ./data/monitor-xml.json (прошлый запуск) против XML_URL
+ *   npm run feed:diff -- old.xml new.xml               - две версии фида (путь, file://, URL, .gz или .json)
+ *   npm run feed:diff -- old.xml new.xml --telegram    - с отправкой отчёта в Telegram
+ */
+
+import { promises as fs } from "fs";
+import { loadCompanies } from "./xml.js";
+import { diffFeeds, formatFeedDiff, loadFeedSnapshot, type SnapshotCompany } from "./feed-diff.js";
+import { sendChunks } from "./telegram.js";
+import { env } from "./config.js";
+
+const PREVIOUS_SNAPSHOT = "./data/monitor-xml.json";
+
+/**
+ * Компании из фида или из сохранённого мониторингом JSON
+ */
+async function loadVersion(source: string): Promise<SnapshotCompany[]> {
+    if (source.endsWith(".json")) {
+        return loadFeedSnapshot(source);
+    }
+    return loadCompanies(source);
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    const telegram = args.includes("--telegram") || args.includes("-t");
+    const [oldSource = PREVIOUS_SNAPSHOT, newSource = env.XML_URL] = args.filter((a) => !a.startsWith("-"));
+
+    if (!newSource) {
+        console.error("❌ Укажите новую версию фида или задайте XML_URL");
+        process.exitCode = 1;
+        return;
+    }
+
+    console.log(`📄 ${oldSource} → ${newSource}`);
+    const diff = diffFeeds(await loadVersion(oldSource), await loadVersion(newSource));
+    const head =
+        `🧾 Изменения фида: добавлено ${diff.added.length}, удалено ${diff.removed.length}, ` +
+        `изменено ${diff.changed.length}, обновлено без изменений ${diff.touchedOnly.length}`;
+    const lines = formatFeedDiff(diff);
+
+    console.log(`\n${head}`);
+    lines.forEach((line) => console.log(line));
+
+    await fs.mkdir("./data", { recursive: true });
+    await fs.writeFile("./data/feed-diff.json", JSON.stringify({ timestamp: new Date().toISOString(), oldSource, newSource, ...diff }, null, 2), "utf8");
+    console.log("\n💾 Результаты сохранены в ./data/feed-diff.json");
+
+    if (telegram && lines.length > 0) {
+        await sendChunks(head, lines.join("\n"));
+        console.log("📨 Отчёт отправлен");
+    }
+}
+
+main().catch((e) => {
+    console.error(`❌ Ошибка: ${e?.message || e}`);
+    process.exitCode = 1;
+});
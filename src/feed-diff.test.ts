@@ -0,0 +1,106 @@
+import { diffFeeds, formatFeedDiff, normalizeSnapshot } from "./feed-diff.js";
+import type { Company } from "./xml.js";
+
+const company = (overrides: Partial<Company> = {}): Company => ({
+    companyId: "5343658",
+    actualizationDate: 1761026831,
+    name: "РосАл",
+    names: { ru: "РосАл" },
+    shortnames: {},
+    address: "Санкт-Петербург, 7-я Красноармейская улица, 23",
+    lat: 59.91173612,
+    lon: 30.31000224,
+    workingTime: "ежедневн. 09:00 - 22:00",
+    phones: ["+7 (812) 740-11-55"],
+    emails: [],
+    addUrls: [],
+    rubricIds: [],
+    ...overrides,
+});
+
+describe("diffFeeds", () => {
+    it("should report added and removed companies", () => {
+        const diff = diffFeeds([company(), company({ companyId: "1" })], [company(), company({ companyId: "2" })]);
+        expect(diff.added.map((c) => c.companyId)).toEqual(["2"]);
+        expect(diff.removed.map((c) => c.companyId)).toEqual(["1"]);
+        expect(diff.changed).toEqual([]);
+    });
+
+    it("should report field changes and whether the record was touched", () => {
+        const diff = diffFeeds(
+            [company(), company({ companyId: "1" })],
+            [company({ workingTime: "ежедневн. 10:00 - 22:00", actualizationDate: 1761100000 }), company({ companyId: "1", phones: [] })]
+        );
+        expect(diff.changed).toEqual([
+            {
+                companyId: "5343658",
+                name: "РосАл",
+                touched: true,
+                actualizationDate: 1761100000,
+                changes: [{ field: "Режим работы", before: "ежедневн. 09:00 - 22:00", after: "ежедневн. 10:00 - 22:00" }],
+            },
+            {
+                companyId: "1",
+                name: "РосАл",
+                touched: false,
+                actualizationDate: 1761026831,
+                changes: [{ field: "Телефон", before: "+7 (812) 740-11-55", after: "—" }],
+            },
+        ]);
+    });
+
+    it("should list records with a new actualization-date but no changes", () => {
+        const diff = diffFeeds([company()], [company({ actualizationDate: 1761100000 })]);
+        expect(diff.changed).toEqual([]);
+        expect(diff.touchedOnly.map((c) => c.companyId)).toEqual(["5343658"]);
+    });
+});
+
+describe("formatFeedDiff", () => {
+    it("should format the report", () => {
+        const diff = diffFeeds(
+            [company(), company({ companyId: "1" })],
+            [company({ name: "РосАл 24", actualizationDate: 1761100000 }), company({ companyId: "2", address: "Санкт-Петербург, Лиговский проспект, 10" })]
+        );
+        expect(formatFeedDiff(diff)).toEqual([
+            "➕ 2 РосАл: Санкт-Петербург, Лиговский проспект, 10",
+            "➖ 1 РосАл: Санкт-Петербург, 7-я Красноармейская улица, 23",
+            "✏️ 5343658 РосАл 24 (обновлено 22.10.2025, 05:26:40)",
+            "  • Название: РосАл → РосАл 24",
+        ]);
+    });
+
+    it("should be empty when nothing changed", () => {
+        expect(formatFeedDiff(diffFeeds([company()], [company()]))).toEqual([]);
+    });
+});
+
+describe("normalizeSnapshot", () => {
+    it("should read a snapshot saved by an older monitor without phones, names and rubrics", () => {
+        const legacy = [
+            {
+                companyId: "5343658",
+                name: "РосАл",
+                address: "Санкт-Петербург, 7-я Красноармейская улица, 23",
+                lat: 59.91173612,
+                lon: 30.31000224,
+                workingTime: "ежедневн. 09:00 - 22:00",
+            },
+        ];
+
+        const previous = normalizeSnapshot(legacy);
+
+        // Полей, которых нет в старом снимке, нет и в отчёте; дата актуализации не считается обновлённой
+        const diff = diffFeeds(previous, [company({ workingTime: "ежедневн. 10:00 - 22:00", url: "https://rosal.ru" })]);
+        expect(diff.changed).toHaveLength(1);
+        expect(diff.changed[0]).toMatchObject({ touched: false, changes: [{ field: "Режим работы" }] });
+        expect(diff.changed[0].changes.map((c) => c.field)).not.toContain("Названия (языки)");
+        expect(diff.changed[0].changes.map((c) => c.field)).not.toContain("Телефон");
+    });
+
+    it("should not report an unchanged feed against a legacy snapshot", () => {
+        const { companyId, name, address, lat, lon, workingTime } = company();
+        const diff = diffFeeds(normalizeSnapshot([{ companyId, name, address, lat, lon, workingTime }]), [company({ url: "https://rosal.ru" })]);
+        expect(diff).toEqual({ added: [], removed: [], changed: [], touchedOnly: [] });
+    });
+});
@@ -0,0 +1,126 @@
+/**
+ * Сравнение двух версий XML-фида: добавленные и удалённые компании, изменения по полям.
+ * actualization-date показывает, какие записи партнёр действительно обновлял
+ */
+
+import { promises as fs } from "fs";
+import type { Company } from "./xml.js";
+
+export type FieldChange = {
+    field: string;
+    before: string;
+    after: string;
+};
+
+/**
+ * Компания из фида или сохранённого снимка. В снимках прежних версий монитора есть только
+ * companyId, name, address, lat, lon, workingTime
+ */
+export type SnapshotCompany = Pick<Company, "companyId" | "name" | "address"> & Partial<Company>;
+
+export type CompanyChange = {
+    companyId: string;
+    name: string;
+    touched: boolean; // actualization-date изменилась
+    actualizationDate?: number;
+    changes: FieldChange[];
+};
+
+export type FeedDiff = {
+    added: SnapshotCompany[];
+    removed: SnapshotCompany[];
+    changed: CompanyChange[]; // есть изменения полей
+    touchedOnly: CompanyChange[]; // дата обновлена, поля не изменились
+};
+
+// Снимок прежней версии монитора: без телефонов (и без сайта, даты актуализации и других новых полей)
+const isLegacy = (c: SnapshotCompany) => c.phones === undefined;
+
+// Сравниваемые поля и их представление в отчёте; undefined — поля нет в снимке, оно не сравнивается
+const FIELDS: [string, (c: SnapshotCompany) => string | undefined][] = [
+    ["Название", (c) => c.name],
+    ["Названия (языки)", (c) => c.names && formatRecord(c.names)],
+    ["Краткое название", (c) => c.shortnames && formatRecord(c.shortnames)],
+    ["Адрес", (c) => c.address],
+    ["Координаты", (c) => (c.lat === undefined || c.lon === undefined ? undefined : `${c.lat}, ${c.lon}`)],
+    ["Режим работы", (c) => c.workingTime],
+    ["Телефон", (c) => c.phones?.join(", ")],
+    ["E-mail", (c) => c.emails?.join(", ")],
+    ["Сайт", (c) => (isLegacy(c) ? undefined : (c.url ?? ""))],
+    ["Доп. ссылки", (c) => c.addUrls?.join(", ")],
+    ["Рубрики", (c) => c.rubricIds?.join(", ")],
+];
+
+/**
+ * Компании из сохранённого снимка фида. Недостающие поля снимков прежних версий
+ * не заполняются: diffFeeds их пропускает, а не сообщает как изменения
+ */
+export function normalizeSnapshot(data: Partial<Company>[]): SnapshotCompany[] {
+    return data.map((c) => ({ ...c, companyId: String(c.companyId ?? ""), name: c.name ?? "", address: c.address ?? "" }));
+}
+
+export async function loadFeedSnapshot(path: string): Promise<SnapshotCompany[]> {
+    const data = JSON.parse(await fs.readFile(path, "utf8"));
+    if (!Array.isArray(data)) throw new Error(`Снимок фида ${path} не является списком компаний`);
+    return normalizeSnapshot(data);
+}
+
+export function diffFeeds(previous: SnapshotCompany[], current: SnapshotCompany[]): FeedDiff {
+    const before = new Map(previous.map((c) => [c.companyId, c]));
+    const after = new Map(current.map((c) => [c.companyId, c]));
+    const diff: FeedDiff = { added: [], removed: [], changed: [], touchedOnly: [] };
+
+    for (const company of current) {
+        const old = before.get(company.companyId);
+        if (!old) {
+            diff.added.push(company);
+            continue;
+        }
+
+        const changes = FIELDS.flatMap(([field, get]) => {
+            const [before, after] = [get(old), get(company)];
+            if (before === undefined || after === undefined) return [];
+            return [{ field, before: before || "—", after: after || "—" }];
+        }).filter((c) => c.before !== c.after);
+        // В снимке прежней версии даты актуализации нет — это не обновление записи
+        const touched = !isLegacy(old) && company.actualizationDate !== undefined && company.actualizationDate !== old.actualizationDate;
+        const entry = { companyId: company.companyId, name: company.name, touched, actualizationDate: company.actualizationDate, changes };
+
+        if (changes.length) diff.changed.push(entry);
+        else if (touched) diff.touchedOnly.push(entry);
+    }
+
+    diff.removed = previous.filter((c) => !after.has(c.companyId));
+    return diff;
+}
+
+/**
+ * Текстовый отчёт о различиях (консоль и Telegram)
+ */
+export function formatFeedDiff(diff: FeedDiff): string[] {
+    const lines: string[] = [];
+
+    diff.added.forEach((c) => lines.push(`➕ ${c.companyId} ${c.name}: ${c.address}`));
+    diff.removed.forEach((c) => lines.push(`➖ ${c.companyId} ${c.name}: ${c.address}`));
+    diff.changed.forEach((c) => {
+        // Изменение без новой actualization-date — повод проверить выгрузку на нашей стороне
+        const mark = c.touched ? `обновлено ${formatActualization(c.actualizationDate)}` : "дата актуализации не менялась";
+        lines.push(`✏️ ${c.companyId} ${c.name} (${mark})`);
+        c.changes.forEach((f) => lines.push(`  • ${f.field}: ${f.before} → ${f.after}`));
+    });
+    if (diff.touchedOnly.length) {
+        lines.push(`🕒 Обновлена дата актуализации без изменений: ${diff.touchedOnly.map((c) => c.companyId).join(", ")}`);
+    }
+
+    return lines;
+}
+
+function formatActualization(date: number | undefined): string {
+    return date ? new Date(date * 1000).toLocaleString("ru-RU", { timeZone: "Europe/Moscow" }) : "—";
+}
+
+function formatRecord(record: Record<string, string> | undefined): string {
+    return Object.entries(record ?? {})
+        .map(([lang, value]) => `${lang}: ${value}`)
+        .join("; ");
+}
@@ -0,0 +1,59 @@
+import { buildCorrectedFeed } from "./feed-export.js";
+import { parseCompanies } from "./xml.js";
+
+const FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<companies>
+    <company>
+        <company-id>5343658</company-id>
+        <actualization-date>1761026831</actualization-date>
+        <name lang="ru">РосАл</name>
+        <name lang="en">RosAl</name>
+        <address lang="ru">Санкт-Петербург, 7-я Красноармейская улица, 23</address>
+        <coordinates>
+            <lat>59.91173612</lat>
+            <lon>30.31000224</lon>
+        </coordinates>
+        <phone>
+            <number>+7 (812) 740-11-55</number>
+            <type>phone</type>
+        </phone>
+        <working-time lang="ru">ежедневн. 09:00 - 22:00</working-time>
+    </company>
+    <company>
+        <company-id>146193a44</company-id>
+        <name lang="ru">РосАл &amp; Ко</name>
+        <address lang="ru">Санкт-Петербург, Муринская дорога, 78</address>
+        <coordinates>
+            <lat>60.035405</lat>
+            <lon>30.451990</lon>
+        </coordinates>
+        <working-time lang="ru">ежедневн. 10:00 - 21:00</working-time>
+    </company>
+</companies>`;
+
+describe("buildCorrectedFeed", () => {
+    it("should keep only affected companies and bump actualization-date", () => {
+        const xml = buildCorrectedFeed(FEED, ["5343658"], 1800000000);
+        const [original] = parseCompanies(FEED);
+        expect(parseCompanies(xml)).toEqual([{ ...original, actualizationDate: 1800000000 }]);
+        expect(xml).toContain("<?xml");
+        expect(xml).not.toContain("146193a44");
+    });
+
+    it("should add actualization-date after company-id and keep values as in the feed", () => {
+        const xml = buildCorrectedFeed(FEED, ["146193a44"], 1800000000);
+        expect(xml).toMatch(/<company-id>146193a44<\/company-id>\s*<actualization-date>1800000000<\/actualization-date>/);
+        expect(xml).toContain("<lon>30.451990</lon>");
+        expect(xml).toContain("РосАл &amp; Ко");
+    });
+
+    it("should keep the order of elements and attributes", () => {
+        const xml = buildCorrectedFeed(FEED, ["5343658"], 1800000000);
+        expect(xml.indexOf('<name lang="ru">РосАл</name>')).toBeLessThan(xml.indexOf('<name lang="en">RosAl</name>'));
+        expect(xml).toContain("<number>+7 (812) 740-11-55</number>");
+    });
+
+    it("should reject a document without <companies>", () => {
+        expect(() => buildCorrectedFeed("<feed/>", ["1"])).toThrow("<companies>");
+    });
+});
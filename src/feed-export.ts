@@ -0,0 +1,56 @@
+/**
+ * Исправленный фид для загрузки в кабинет Яндекс.Бизнеса: только компании с расхождениями,
+ * значения из исходного фида, новая actualization-date — чтобы карточки пересинхронизировались
+ */
+
+import { XMLParser, XMLBuilder } from "fast-xml-parser";
+
+// Узел XML в режиме preserveOrder: { "tag": [дочерние узлы], ":@": { атрибуты } }
+type XmlNode = Record<string, unknown>;
+
+const OPTIONS = {
+    preserveOrder: true, // порядок элементов как в исходном фиде (name/shortname по языкам)
+    ignoreAttributes: false,
+    parseTagValue: false, // company-id, телефоны и координаты остаются строками как в фиде
+    trimValues: true,
+};
+
+/**
+ * Фид из компаний companyIds исходного фида xml с actualization-date = actualizationDate (unix-время).
+ * Остальные поля и атрибуты компаний переносятся без изменений
+ */
+export function buildCorrectedFeed(xml: string, companyIds: Iterable<string>, actualizationDate = Math.floor(Date.now() / 1000)): string {
+    const ids = new Set(companyIds);
+    const root = new XMLParser(OPTIONS).parse(xml) as XmlNode[];
+
+    const companiesNode = root.find((n) => "companies" in n);
+    if (!companiesNode) {
+        throw new Error("В фиде нет элемента <companies>");
+    }
+
+    companiesNode.companies = (companiesNode.companies as XmlNode[])
+        .filter((n) => "company" in n && ids.has(childText(n.company as XmlNode[], "company-id")))
+        .map((n) => ({ ...n, company: withActualizationDate(n.company as XmlNode[], actualizationDate) }));
+
+    const builder = new XMLBuilder({ ...OPTIONS, format: true, indentBy: "    " });
+    return builder.build(root);
+}
+
+function childText(children: XmlNode[], tag: string): string {
+    const node = children.find((c) => tag in c);
+    const text = (node?.[tag] as XmlNode[] | undefined)?.[0]?.["#text"];
+    return text === undefined ? "" : String(text);
+}
+
+/**
+ * Замена actualization-date; если её не было — добавляется сразу после company-id
+ */
+function withActualizationDate(children: XmlNode[], date: number): XmlNode[] {
+    const node = { "actualization-date": [{ "#text": String(date) }] };
+    const index = children.findIndex((c) => "actualization-date" in c);
+    if (index !== -1) {
+        return children.map((c, i) => (i === index ? node : c));
+    }
+    const idIndex = children.findIndex((c) => "company-id" in c);
+    return [...children.slice(0, idIndex + 1), node, ...children.slice(idIndex + 1)];
+}
@@ -0,0 +1,59 @@
+import { lintCompanies, formatLintIssue } from "./feed-lint.js";
+import type { Company } from "./xml.js";
+
+const company = (overrides: Partial<Company> = {}): Company => ({
+    companyId: "5343658",
+    name: "РосАл",
+    names: { ru: "РосАл" },
+    shortnames: {},
+    address: "Санкт-Петербург, 7-я Красноармейская улица, 23",
+    lat: 59.91173612,
+    lon: 30.31000224,
+    workingTime: "ежедневн. 09:00 - 22:00",
+    phones: ["+7 (812) 740-11-55"],
+    emails: [],
+    addUrls: [],
+    rubricIds: [],
+    ...overrides,
+});
+
+describe("lintCompanies", () => {
+    it("should accept a valid company", () => {
+        expect(lintCompanies([company()])).toEqual({ total: 1, errors: 0, warnings: 0, issues: [] });
+    });
+
+    it("should report missing required fields and bad coordinates", () => {
+        const report = lintCompanies([company({ companyId: "undefined", name: "—", lat: NaN, lon: 230 })]);
+        expect(report.errors).toBe(4);
+        expect(report.issues.map(formatLintIssue)).toEqual([
+            "❌ #1 · company-id: Не указан",
+            "❌ #1 · Название: Не указано",
+            "❌ #1 · Координаты: Не указана широта",
+            "❌ #1 · Координаты: Долгота вне диапазона",
+        ]);
+    });
+
+    it("should accept alphanumeric ids from the feed", () => {
+        expect(lintCompanies([company({ companyId: "146193a44" })]).errors).toBe(0);
+        expect(lintCompanies([company({ companyId: "5343 658" })]).issues[0].message).toBe("Недопустимые символы");
+    });
+
+    it("should report duplicate ids once", () => {
+        const report = lintCompanies([company(), company(), company()]);
+        expect(report.issues).toEqual([{ companyId: "5343658", severity: "error", field: "company-id", message: "Дубликат" }]);
+    });
+
+    it("should warn about phones and working time", () => {
+        const report = lintCompanies([company({ phones: ["740-11"], workingTime: "по договорённости" }), company({ companyId: "2", workingTime: "—" })]);
+        expect(report.errors).toBe(0);
+        expect(report.issues.map((i) => `${i.field}: ${i.message}`)).toEqual([
+            "Телефон: Неверный формат: 740-11",
+            "Режим работы: Не распознан: по договорённости",
+            "Режим работы: Не указан",
+        ]);
+    });
+
+    it("should fail an empty feed", () => {
+        expect(lintCompanies([]).errors).toBe(1);
+    });
+});
@@ -0,0 +1,104 @@
+/**
+ * Проверка фида компаний перед сравнением: обязательные поля, координаты,
+ * дубликаты company-id, формат телефонов и распознаваемость режима работы
+ */
+
+import { z } from "zod";
+import type { Company } from "./xml.js";
+import { normalizePhone, normalizeXmlWorkingTime } from "./normalize.js";
+
+export type LintIssue = {
+    companyId: string;
+    severity: "error" | "warning";
+    field: string;
+    message: string;
+};
+
+export type FeedLintReport = {
+    total: number; // компаний в фиде
+    errors: number;
+    warnings: number;
+    issues: LintIssue[];
+};
+
+// "—" — так extractText обозначает отсутствующее значение
+const present = z
+    .string()
+    .trim()
+    .refine((v) => v !== "" && v !== "—", "Не указано");
+
+const CompanySchema = z.object({
+    companyId: z
+        .string()
+        .refine((v) => v !== "", "Не указан")
+        .refine((v) => v === "" || /^[\w-]+$/.test(v), "Недопустимые символы"),
+    name: present,
+    address: present,
+    lat: z.number({ required_error: "Не указана широта" }).min(-90, "Широта вне диапазона").max(90, "Широта вне диапазона"),
+    lon: z.number({ required_error: "Не указана долгота" }).min(-180, "Долгота вне диапазона").max(180, "Долгота вне диапазона"),
+});
+
+const FIELD_LABELS: Record<string, string> = {
+    companyId: "company-id",
+    name: "Название",
+    address: "Адрес",
+    lat: "Координаты",
+    lon: "Координаты",
+};
+
+/**
+ * Проверка списка компаний. Ошибки — данные, с которыми сравнение бессмысленно;
+ * предупреждения — значения, которые не удалось разобрать (телефон, режим работы)
+ */
+export function lintCompanies(companies: Company[]): FeedLintReport {
+    const issues: LintIssue[] = [];
+    const seen = new Map<string, number>();
+
+    companies.forEach((company, index) => {
+        const companyId = company.companyId && company.companyId !== "undefined" ? company.companyId : `#${index + 1}`;
+        const push = (severity: LintIssue["severity"], field: string, message: string) => issues.push({ companyId, severity, field, message });
+
+        const parsed = CompanySchema.safeParse({
+            ...company,
+            companyId: company.companyId === "undefined" ? "" : company.companyId,
+            // NaN из Number(undefined) — отсутствующие координаты
+            lat: Number.isFinite(company.lat) ? company.lat : undefined,
+            lon: Number.isFinite(company.lon) ? company.lon : undefined,
+        });
+        if (!parsed.success) {
+            parsed.error.issues.forEach((issue) => push("error", FIELD_LABELS[String(issue.path[0])] ?? String(issue.path[0]), issue.message));
+        }
+
+        seen.set(companyId, (seen.get(companyId) ?? 0) + 1);
+        if (seen.get(companyId) === 2) push("error", "company-id", "Дубликат");
+
+        for (const phone of company.phones) {
+            if (!/^\+7\d{10}$/.test(normalizePhone(phone))) push("warning", "Телефон", `Неверный формат: ${phone}`);
+        }
+
+        if (!company.workingTime || company.workingTime === "—") {
+            push("warning", "Режим работы", "Не указан");
+        } else {
+            const schedule = normalizeXmlWorkingTime(company.workingTime);
+            if (!schedule.is24x7 && Object.keys(schedule.byDay).length === 0) push("warning", "Режим работы", `Не распознан: ${company.workingTime}`);
+        }
+    });
+
+    if (companies.length === 0) {
+        issues.push({ companyId: "—", severity: "error", field: "Фид", message: "Нет ни одной компании" });
+    }
+
+    return {
+        total: companies.length,
+        errors: issues.filter((i) => i.severity === "error").length,
+        warnings: issues.filter((i) => i.severity === "warning").length,
+        issues,
+    };
+}
+
+/**
+ * Строка отчёта по одной проблеме
+ */
+export function formatLintIssue(issue: LintIssue): string {
+    return `${issue.severity === "error" ? "❌" : "⚠️"} ${issue.companyId} · ${issue.field}: ${issue.message}`;
+}
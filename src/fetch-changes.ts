@@ -2,47 +2,30 @@
 // Скрипт для сбора истории изменений всех филиалов
 
 import { promises as fs } from "fs";
-import { ensureYandexAuth, closeBrowser, fetchBranchChangeHistory, type YandexBranch, type BranchChangeHistory } from "./yandex.js";
+import { ensureYandexAuth, closeBrowser, fetchBranchChangeHistory, onRateLimited, type YandexBranch, type BranchChangeHistory } from "./yandex.js";
 import { sendMessage } from "./telegram.js";
-import pLimit from "p-limit";
+import { createCrawlScheduler, formatCrawlStats, type CrawlStats } from "./crawl-scheduler.js";
+import { loadChangeCursors, saveChangeCursors, selectNewChanges, cursorHorizon, type ChangeCursor } from "./change-cursors.js";
+import { summarizeCheckStatuses, formatCheckSummaryLines, checkStatusLabel, type CheckSummary } from "./branch-utils.js";
+import { env } from "./config.js";
 
 const BRANCHES_FILE = "./data/branches.json";
 const CHANGES_OUTPUT_FILE = "./data/branches-changes.json";
-const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+const CURSORS_FILE = "./data/branches-changes-cursors.json"; // последняя учтённая заявка по каждому филиалу
 
-// Ограничиваем количество одновременных запросов
-const limit = pLimit(3);
-
-function parseTimestamp(timestamp: string): Date | null {
-    const match = timestamp.match(/(\d{2})-(\d{2})-(\d{4})\s*·\s*(\d{2}):(\d{2})/);
-    if (!match) {
-        return null;
-    }
-
-    const [, day, month, year, hour, minute] = match;
-    const parsedDate = new Date(
-        Number(year),
-        Number(month) - 1,
-        Number(day),
-        Number(hour),
-        Number(minute)
-    );
-
-    return Number.isNaN(parsedDate.getTime()) ? null : parsedDate;
-}
-
-function keepRecentChanges(history: BranchChangeHistory): BranchChangeHistory {
-    const cutoff = Date.now() - ONE_DAY_MS;
-
-    const recentChanges = history.changes.filter((change) => {
-        const changeDate = parseTimestamp(change.timestamp);
-        return changeDate ? changeDate.getTime() >= cutoff : false;
-    });
+/**
+ * Только заявки, появившиеся после курсора (первый обход — за последние 24 часа)
+ */
+function keepNewChanges(history: BranchChangeHistory, cursor?: ChangeCursor): { history: BranchChangeHistory; cursor?: ChangeCursor } {
+    const selected = selectNewChanges(history.changes, cursor);
 
     return {
-        ...history,
-        totalChanges: recentChanges.length,
-        changes: recentChanges,
+        history: {
+            ...history,
+            totalChanges: selected.changes.length,
+            changes: selected.changes,
+        },
+        cursor: selected.cursor,
     };
 }
 
@@ -50,15 +33,17 @@ function keepRecentChanges(history: BranchChangeHistory): BranchChangeHistory {
  * Отправка отчёта о сборе изменений в Telegram
  */
 async function sendFetchReport(
-    totalBranches: number,
+    checkSummary: CheckSummary,
     totalChanges: number,
     branchesWithChanges: number,
-    top5: { branchId: string; name?: string; totalChanges: number }[]
+    top5: { branchId: string; name?: string; totalChanges: number }[],
+    crawlStats: CrawlStats
 ): Promise<void> {
     const lines = [
-        `📊 Сбор изменений завершён`,
+        checkSummary.ok < checkSummary.total ? `⚠️ Сбор изменений завершён с ошибками` : `📊 Сбор изменений завершён`,
+        ``,
+        ...formatCheckSummaryLines(checkSummary, env.CHECK_MIN_COVERAGE),
         ``,
-        `Филиалов проверено: ${totalBranches}`,
         `Всего изменений: ${totalChanges}`,
         `Филиалов с изменениями: ${branchesWithChanges}`,
     ];
@@ -71,6 +56,9 @@ async function sendFetchReport(
         }
     }
 
+    lines.push(``);
+    lines.push(formatCrawlStats(crawlStats));
+
     await sendMessage(lines.join("\n"));
 }
 
@@ -100,21 +88,41 @@ export async function fetchAllChanges(options: { telegram?: boolean } = {}) {
             return;
         }
 
+        // Курсоры прошлого обхода: учитываем только новые заявки
+        const cursors = await loadChangeCursors(CURSORS_FILE);
+
         // Собираем изменения для всех филиалов
         const allChanges: BranchChangeHistory[] = [];
         let processed = 0;
 
         console.log("\n🚀 Начинаем сбор истории изменений...\n");
 
+        // Общий планировщик: параллельность, паузы между страницами, замедление при капче и HTTP 429
+        const scheduler = createCrawlScheduler();
+        const stopPacing = onRateLimited((reason) => scheduler.slowDown(reason));
+
         const tasks = branchesWithChanges.map((branch) =>
-            limit(async () => {
+            scheduler.schedule(async () => {
                 if (!branch.changesUrl || !branch.id) return null;
 
-                const history = await fetchBranchChangeHistory(branch.changesUrl, branch.id);
-                const filteredHistory = keepRecentChanges(history);
+                // Историю достаточно подгрузить до курсора
+                const history = await fetchBranchChangeHistory(branch.changesUrl, branch.id, { since: cursorHorizon(cursors[branch.id]) });
+                const { history: filteredHistory, cursor } = keepNewChanges(history, cursors[branch.id]);
                 const originalTotal = history.totalChanges;
                 processed++;
 
+                // Курсор сдвигается только по прочитанной истории: иначе заявки потеряются
+                if (cursor && history.checkStatus === "ok") {
+                    cursors[branch.id] = cursor;
+                }
+
+                if (history.checkStatus && history.checkStatus !== "ok") {
+                    console.log(
+                        `[${processed}/${branchesWithChanges.length}] ${branch.name || branch.id}: не удалось проверить (${checkStatusLabel(history.checkStatus)})`
+                    );
+                    return filteredHistory;
+                }
+
                 console.log(
                     `[${processed}/${branchesWithChanges.length}] ${branch.name || branch.id}: ${filteredHistory.totalChanges} изменений${originalTotal !== filteredHistory.totalChanges ? ` (из ${originalTotal})` : ""}`
                 );
@@ -124,6 +132,8 @@ export async function fetchAllChanges(options: { telegram?: boolean } = {}) {
         );
 
         const results = await Promise.all(tasks);
+        stopPacing();
+        const crawlStats = scheduler.stats();
 
         // Фильтруем null и добавляем в результат
         for (const result of results) {
@@ -143,14 +153,20 @@ export async function fetchAllChanges(options: { telegram?: boolean } = {}) {
         console.log(`\n✅ Собрано историй изменений: ${allChanges.length}`);
         console.log(`💾 Данные сохранены в ${CHANGES_OUTPUT_FILE}`);
 
+        // Курсоры сохраняются только вместе с собранными изменениями
+        await saveChangeCursors(CURSORS_FILE, cursors);
+
         // Статистика
         const totalChanges = allChanges.reduce((sum, h) => sum + h.totalChanges, 0);
         const branchesWithChangesCount = allChanges.filter(h => h.totalChanges > 0).length;
+        const checkSummary = summarizeCheckStatuses(allChanges.map(h => h.checkStatus));
 
         console.log(`\n📊 Статистика:`);
+        formatCheckSummaryLines(checkSummary, env.CHECK_MIN_COVERAGE).forEach(line => console.log(`   ${line}`));
         console.log(`   Всего изменений: ${totalChanges}`);
         console.log(`   Филиалов с изменениями: ${branchesWithChangesCount}`);
-        console.log(`   Филиалов без изменений: ${allChanges.length - branchesWithChangesCount}`);
+        console.log(`   Филиалов без изменений: ${checkSummary.ok - branchesWithChangesCount}`);
+        console.log(`   ${formatCrawlStats(crawlStats)}`);
 
         // Топ-5 филиалов по количеству изменений
         const top5 = allChanges
@@ -186,7 +202,7 @@ export async function fetchAllChanges(options: { telegram?: boolean } = {}) {
                 const branch = branches.find(b => b.id === h.branchId);
                 return { branchId: h.branchId, name: branch?.name, totalChanges: h.totalChanges };
             });
-            await sendFetchReport(allChanges.length, totalChanges, branchesWithChangesCount, top5Data);
+            await sendFetchReport(checkSummary, totalChanges, branchesWithChangesCount, top5Data, crawlStats);
             console.log(`✅ Отчёт отправлен!`);
         }
 
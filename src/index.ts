@@ -27,6 +27,7 @@ export {
     type BranchChange,
     type BranchChangeHistory,
     type SimpleChange,
+    type SimpleChangesResult,
 } from "./yandex.js";
 
 async function doRun() {
@@ -0,0 +1,50 @@
+/**
+ * Управление сопоставлением компаний из XML с филиалами на Яндекс.Картах
+ *
+ * Использование:
+ *   npm run mapping                                 - список сопоставлений
+ *   npm run mapping -- set <company-id> <branch-id> - закрепить филиал вручную
+ *   npm run mapping -- unset <company-id>           - удалить сопоставление
+ *   npm run mapping -- conflicts                    - филиалы, сопоставленные с несколькими компаниями
+ */
+
+import { loadMapping, saveMapping, findMappingConflicts } from "./cache.js";
+import { env } from "./config.js";
+
+async function main() {
+    const [command, companyId, yandexId] = process.argv.slice(2);
+    const mapping = await loadMapping(env.MAPPING_FILE);
+
+    if (command === "set") {
+        if (!companyId || !yandexId) {
+            console.error("❌ Укажите company-id и id филиала: npm run mapping -- set <company-id> <branch-id>");
+            process.exitCode = 1;
+            return;
+        }
+        mapping[companyId] = { yandexId, source: "manual", updatedAt: new Date().toISOString() };
+        await saveMapping(env.MAPPING_FILE, mapping);
+        console.log(`📌 ${companyId} → ${yandexId} (закреплено вручную)`);
+    } else if (command === "unset") {
+        if (!companyId || !mapping[companyId]) {
+            console.error(`❌ Сопоставление для ${companyId || "(не указан company-id)"} не найдено`);
+            process.exitCode = 1;
+            return;
+        }
+        delete mapping[companyId];
+        await saveMapping(env.MAPPING_FILE, mapping);
+        console.log(`🗑️  Сопоставление для ${companyId} удалено`);
+    } else if (command === "conflicts") {
+        const conflicts = findMappingConflicts(mapping);
+        if (conflicts.length === 0) console.log("✅ Конфликтов нет");
+        conflicts.forEach((c) => console.log(`⚠️  Филиал ${c.yandexId}: компании ${c.companyIds.join(", ")}`));
+    } else {
+        const entries = Object.entries(mapping);
+        console.log(`📋 Сопоставлений: ${entries.length} (${env.MAPPING_FILE})`);
+        entries.forEach(([id, e]) => console.log(`   ${id} → ${e.yandexId}${e.source === "manual" ? " 📌" : ""}`));
+    }
+}
+
+main().catch((e) => {
+    console.error(`❌ Ошибка: ${e?.message || e}`);
+    process.exitCode = 1;
+});
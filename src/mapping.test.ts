@@ -0,0 +1,70 @@
+import { resolveMatches } from "./mapping.js";
+import { findMappingConflicts, type Mapping } from "./cache.js";
+
+type C = { companyId: string; address: string };
+type B = { id?: string; address: string };
+
+const branches: B[] = [
+    { id: "b1", address: "Лесной 61" },
+    { id: "b2", address: "Просвещения 46" },
+];
+const guessByAddress = (c: C) => {
+    const branch = branches.find((b) => b.address === c.address);
+    return branch && { branch, confidence: 0.9 };
+};
+const entry = (yandexId: string, source: "auto" | "manual" = "auto") => ({ yandexId, source, updatedAt: "2026-01-01T00:00:00.000Z" });
+
+describe("resolveMatches", () => {
+    it("should reuse stored mapping and store new guesses", () => {
+        const companies: C[] = [
+            { companyId: "1", address: "другой адрес" },
+            { companyId: "2", address: "Просвещения 46" },
+        ];
+        const result = resolveMatches(companies, branches, { "1": entry("b1") }, guessByAddress);
+
+        expect(result.matches.get("1")?.id).toBe("b1");
+        expect(result.matches.get("2")?.id).toBe("b2");
+        expect(result.mapping["1"]).toEqual(entry("b1"));
+        expect(result.mapping["2"]).toMatchObject({ yandexId: "b2", source: "auto", confidence: 0.9 });
+        expect(result.conflicts).toEqual([]);
+    });
+
+    it("should give the branch to a manual pin and report the conflict", () => {
+        const companies: C[] = [
+            { companyId: "1", address: "Лесной 61" },
+            { companyId: "2", address: "Просвещения 46" },
+        ];
+        const result = resolveMatches(companies, branches, { "2": entry("b1", "manual") }, guessByAddress);
+
+        expect(result.matches.get("2")?.id).toBe("b1");
+        expect(result.matches.has("1")).toBe(false);
+        expect(result.conflicts).toEqual([{ yandexId: "b1", companyIds: ["1", "2"] }]);
+        expect(result.mapping["1"]).toBeUndefined();
+    });
+
+    it("should not pick the first company when claims are equal", () => {
+        const companies: C[] = [
+            { companyId: "1", address: "Лесной 61" },
+            { companyId: "2", address: "Лесной 61" },
+        ];
+        const result = resolveMatches(companies, branches, {}, guessByAddress);
+
+        expect(result.matches.size).toBe(0);
+        expect(result.conflicts).toEqual([{ yandexId: "b1", companyIds: ["1", "2"] }]);
+    });
+
+    it("should report a pinned branch missing from the cabinet", () => {
+        const companies: C[] = [{ companyId: "1", address: "Лесной 61" }];
+        const result = resolveMatches(companies, branches, { "1": entry("b9", "manual") }, guessByAddress);
+
+        expect(result.matches.size).toBe(0);
+        expect(result.missingPinned).toEqual(companies);
+    });
+});
+
+describe("findMappingConflicts", () => {
+    it("should list branches mapped to several companies", () => {
+        const mapping: Mapping = { "1": entry("b1"), "2": entry("b1", "manual"), "3": entry("b2") };
+        expect(findMappingConflicts(mapping)).toEqual([{ yandexId: "b1", companyIds: ["1", "2"] }]);
+    });
+});
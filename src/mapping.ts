@@ -0,0 +1,80 @@
+/**
+ * Сопоставление компаний из XML с филиалами на Яндекс.Картах
+ * Управление сохранённым сопоставлением — src/mapping-cli.ts
+ */
+
+import type { Mapping, MappingConflict } from "./cache.js";
+
+export type MatchResult<C, B> = {
+    matches: Map<string, B>; // companyId -> филиал
+    conflicts: MappingConflict[];
+    missingPinned: C[]; // закреплённый вручную филиал отсутствует в кабинете
+    mapping: Mapping; // обновлённое сопоставление для сохранения
+};
+
+// Результат автоматического поиска филиала для компании
+export type Guess<B> = { branch: B; confidence?: number; ambiguous?: boolean };
+
+// Приоритет при споре за филиал: ручное закрепление > сохранённое сопоставление > новый поиск
+const RANK = { manual: 2, stored: 1, guess: 0 } as const;
+
+/**
+ * Сопоставление компаний с филиалами: сохранённое сопоставление, иначе guess (поиск по данным компании).
+ * Если на один филиал претендуют несколько компаний, он достаётся единственному претенденту
+ * с наивысшим приоритетом; остальные (или все при равенстве) попадают в конфликты и не сравниваются
+ */
+export function resolveMatches<C extends { companyId: string }, B extends { id?: string }>(
+    companies: C[],
+    branches: B[],
+    mapping: Mapping,
+    guess: (company: C) => Guess<B> | undefined
+): MatchResult<C, B> {
+    const byId = new Map(branches.filter((b) => b.id).map((b) => [b.id as string, b]));
+    const claims = new Map<B, { company: C; rank: number; guess?: Guess<B> }[]>();
+    const missingPinned: C[] = [];
+
+    for (const company of companies) {
+        const entry = mapping[company.companyId];
+        const stored = entry && byId.get(entry.yandexId);
+        let claim: { branch: B; rank: number; guess?: Guess<B> } | undefined;
+
+        if (stored) claim = { branch: stored, rank: entry.source === "manual" ? RANK.manual : RANK.stored };
+        else if (entry?.source === "manual") missingPinned.push(company);
+        else {
+            const found = guess(company);
+            if (found) claim = { branch: found.branch, rank: RANK.guess, guess: found };
+        }
+
+        if (claim) claims.set(claim.branch, [...(claims.get(claim.branch) ?? []), { company, rank: claim.rank, guess: claim.guess }]);
+    }
+
+    const matches = new Map<string, B>();
+    const conflicts: MappingConflict[] = [];
+    const updated: Mapping = { ...mapping };
+    const now = new Date().toISOString();
+
+    for (const [branch, claimants] of claims) {
+        const top = Math.max(...claimants.map((c) => c.rank));
+        const winners = claimants.filter((c) => c.rank === top);
+        const winner = winners.length === 1 ? winners[0] : undefined;
+
+        if (winner) {
+            matches.set(winner.company.companyId, branch);
+            if (branch.id && winner.guess) {
+                const { confidence, ambiguous } = winner.guess;
+                updated[winner.company.companyId] = {
+                    yandexId: branch.id,
+                    source: "auto",
+                    updatedAt: now,
+                    ...(confidence !== undefined && { confidence }),
+                    ...(ambiguous && { ambiguous }),
+                };
+            }
+        }
+        if (claimants.length > 1) {
+            conflicts.push({ yandexId: branch.id ?? "(без id)", companyIds: claimants.map((c) => c.company.companyId) });
+        }
+    }
+
+    return { matches, conflicts, missingPinned, mapping: updated };
+}
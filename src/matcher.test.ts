@@ -0,0 +1,50 @@
+import { matchBranch, scoreBranch } from "./matcher.js";
+
+const company = { name: "РосАл", address: "Санкт-Петербург, Лесной проспект, 61, корп. 3", lat: 59.984152, lon: 30.345045 };
+
+const branches = [
+    { id: "1", name: "РосАл", address: "Санкт-Петербург, проспект Просвещения, 46, корп. 1", lat: 60.0513, lon: 30.3329 },
+    { id: "2", name: "РосАл", address: "Санкт-Петербург, Лесной проспект, 61к3", lat: 59.98417, lon: 30.34502 },
+    { id: "3", name: "РосАл", address: "Санкт-Петербург, Лесной проспект, 19", lat: 59.9679, lon: 30.3448 },
+];
+
+describe("scoreBranch", () => {
+    it("should combine address, distance and name signals", () => {
+        const score = scoreBranch(company, branches[1]);
+        expect(score.name).toBe(1);
+        expect(score.distanceM).toBeLessThan(10);
+        expect(score.score).toBeGreaterThan(0.8);
+    });
+
+    it("should reweight when coordinates are missing", () => {
+        const score = scoreBranch(company, { name: "РосАл", address: company.address });
+        expect(score.distanceM).toBeUndefined();
+        expect(score.score).toBe(1);
+    });
+});
+
+describe("matchBranch", () => {
+    it("should pick the right branch among same-name branches", () => {
+        const match = matchBranch(company, branches);
+        expect(match.branch?.id).toBe("2");
+        expect(match.lowConfidence).toBe(false);
+        expect(match.ambiguous).toBe(false);
+        expect(match.runnerUp?.branch.id).toBe("3");
+    });
+
+    it("should flag ambiguous matches", () => {
+        const twins = [
+            { id: "a", name: "РосАл", address: company.address },
+            { id: "b", name: "РосАл", address: company.address },
+        ];
+        expect(matchBranch(company, twins).ambiguous).toBe(true);
+    });
+
+    it("should reject candidates below the threshold", () => {
+        const far = [{ id: "x", name: "Другой магазин", address: "Москва, Тверская улица, 1", lat: 55.757, lon: 37.614 }];
+        const match = matchBranch(company, far);
+        expect(match.branch).toBeUndefined();
+        expect(match.lowConfidence).toBe(true);
+        expect(matchBranch(company, []).branch).toBeUndefined();
+    });
+});
@@ -0,0 +1,103 @@
+import stringSimilarity from "string-similarity";
+import { getDistance } from "geolib";
+import { normalizeAddress } from "./address.js";
+
+/**
+ * Вклад сигналов в итоговую оценку совпадения. Если сигнал недоступен
+ * (нет координат или названия), веса остальных пересчитываются пропорционально
+ */
+const WEIGHTS = { address: 0.5, distance: 0.35, name: 0.15 };
+
+export type MatchOptions = {
+    maxDistanceM: number; // на этом расстоянии и дальше близость даёт 0
+    minConfidence: number; // ниже — совпадение требует проверки
+    rejectBelow: number; // ниже — филиал не считается найденным
+    ambiguityMargin: number; // второй кандидат ближе этого отрыва — совпадение неоднозначно
+};
+
+export const DEFAULT_MATCH_OPTIONS: MatchOptions = { maxDistanceM: 500, minConfidence: 0.6, rejectBelow: 0.35, ambiguityMargin: 0.05 };
+
+type MatchCompany = { name: string; address: string; lat: number; lon: number };
+type MatchBranch = { name?: string; address?: string; lat?: number; lon?: number };
+
+export type MatchScore = {
+    score: number; // 0..1
+    address?: number;
+    name?: number;
+    distanceM?: number;
+};
+
+export type BranchMatch<B> = {
+    branch?: B;
+    confidence: number; // оценка лучшего кандидата
+    lowConfidence: boolean;
+    ambiguous: boolean;
+    runnerUp?: { branch: B; confidence: number };
+};
+
+/**
+ * Оценка соответствия компании из XML филиалу: похожесть адреса, близость координат, похожесть названия
+ */
+export function scoreBranch(company: MatchCompany, branch: MatchBranch, maxDistanceM = DEFAULT_MATCH_OPTIONS.maxDistanceM): MatchScore {
+    const signals: { weight: number; value: number }[] = [];
+    const result: Omit<MatchScore, "score"> = {};
+
+    const companyAddress = normalizeAddress(company.address);
+    const branchAddress = normalizeAddress(branch.address);
+    if (companyAddress && branchAddress) {
+        result.address = stringSimilarity.compareTwoStrings(companyAddress, branchAddress);
+        signals.push({ weight: WEIGHTS.address, value: result.address });
+    }
+
+    if (Number.isFinite(company.lat) && Number.isFinite(company.lon) && branch.lat !== undefined && branch.lon !== undefined) {
+        result.distanceM = getDistance({ latitude: company.lat, longitude: company.lon }, { latitude: branch.lat, longitude: branch.lon });
+        signals.push({ weight: WEIGHTS.distance, value: Math.max(0, 1 - result.distanceM / maxDistanceM) });
+    }
+
+    const companyName = normalizeText(company.name);
+    const branchName = normalizeText(branch.name);
+    if (companyName && branchName) {
+        result.name = stringSimilarity.compareTwoStrings(companyName, branchName);
+        signals.push({ weight: WEIGHTS.name, value: result.name });
+    }
+
+    const totalWeight = signals.reduce((sum, s) => sum + s.weight, 0);
+    const score = totalWeight ? signals.reduce((sum, s) => sum + s.weight * s.value, 0) / totalWeight : 0;
+    return { score: Math.round(score * 1000) / 1000, ...result };
+}
+
+/**
+ * Лучший филиал для компании с оценкой уверенности.
+ * Если лучший кандидат ниже rejectBelow, филиал не возвращается
+ */
+export function matchBranch<B extends MatchBranch>(company: MatchCompany, branches: B[], options: Partial<MatchOptions> = {}): BranchMatch<B> {
+    const opts = { ...DEFAULT_MATCH_OPTIONS, ...options };
+    const ranked = branches
+        .map((branch) => ({ branch, confidence: scoreBranch(company, branch, opts.maxDistanceM).score }))
+        .sort((a, b) => b.confidence - a.confidence);
+
+    const [best, second] = ranked;
+    if (!best || best.confidence < opts.rejectBelow) {
+        return { confidence: best?.confidence ?? 0, lowConfidence: true, ambiguous: false };
+    }
+
+    return {
+        branch: best.branch,
+        confidence: best.confidence,
+        lowConfidence: best.confidence < opts.minConfidence,
+        ambiguous: !!second && best.confidence - second.confidence < opts.ambiguityMargin,
+        runnerUp: second,
+    };
+}
+
+/**
+ * Приведение строки к виду для нечёткого сравнения: регистр, «ё», пунктуация, пробелы
+ */
+function normalizeText(s: string | undefined): string {
+    return (s || "")
+        .toLowerCase()
+        .replace(/ё/g, "е")
+        .replace(/[.,;:()«»"]/g, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+}
@@ -2,121 +2,119 @@
  * Основной скрипт мониторинга с отправкой отчётов в Telegram
  *
  * Запуск: npm run monitor
+ * Локальный фид: npm run monitor -- --xml ./For_Yandexx_Map.xml (путь, file://, .gz или «-» для stdin)
+ * Прервать при ошибках в фиде: npm run monitor -- --strict (или FEED_LINT_ABORT=true)
+ * Исправленный фид по расхождениям: npm run monitor -- --export-feed [./data/corrected-feed.xml]
  *
  * Выполняет:
- * 1. Загрузку данных из XML
+ * 1. Загрузку и проверку данных из XML
  * 2. Получение данных филиалов с Яндекс.Карт
  * 3. Сравнение данных
  * 4. Отправку отчёта в Telegram
  */
 
 import { promises as fs } from "fs";
-import { loadCompanies, type Company } from "./xml.js";
+import dayjs from "dayjs";
+import { loadFeed, type Company } from "./xml.js";
 import { ensureYandexAuth, closeBrowser, fetchBranches, type YandexBranch } from "./yandex.js";
-import { reportAllOk, reportDiffs } from "./report.js";
-import { env } from "./config.js";
+import { reportAllOk, reportDiffs, reportMatchReview, reportFeedLint, type MatchReviewItem } from "./report.js";
+import { lintCompanies, formatLintIssue } from "./feed-lint.js";
+import { diffFeeds, loadFeedSnapshot } from "./feed-diff.js";
+import { buildCorrectedFeed } from "./feed-export.js";
+import { compareWorkingTime, compareContacts, compareCoordinates, compareRubrics, compareAddress, compareName, type FieldCompareResult } from "./compare.js";
+import { loadRubricNames, collectRubricNames } from "./rubrics.js";
+import { loadMapping, saveMapping, type MappingConflict, type MappingEntry } from "./cache.js";
+import { resolveMatches } from "./mapping.js";
+import { matchBranch } from "./matcher.js";
+import { env, scheduleToleranceFor } from "./config.js";
 
 type Diff = {
     companyId: string;
     name: string;
     address: string;
+    field?: string; // проверяемое поле: «Режим работы», «Телефон», …
     expected: string;
     actual?: string;
     url?: string;
+    reasons?: string[];
+    tolerated?: string[];
 };
 
 /**
- * Нормализация строки для сравнения
+ * Запись о расхождении по результату сравнения поля
  */
-function normalize(s: string | undefined): string {
-    return (s || "")
-        .toLowerCase()
-        .replace(/\s+/g, " ")
-        .replace(/[.–—]/g, "-")
-        .trim();
+function toDiff(company: Company, branch: YandexBranch, result: FieldCompareResult): Diff {
+    return {
+        companyId: company.companyId,
+        name: company.name,
+        address: company.address,
+        field: result.field,
+        expected: result.targetText || "—",
+        actual: result.actualText || "(не указано)",
+        url: branch.url,
+        reasons: result.reasons,
+        tolerated: result.tolerated,
+    };
 }
 
 /**
- * Сравнение режима работы из XML с данными Яндекс.Карт
+ * Запись о компании, не сопоставленной с филиалом: конфликт, пропавший закреплённый филиал или не найден
  */
-function compareWorkingTime(xmlTime: string, yandexHours: string | undefined): { match: boolean; reason?: string } {
-    const xmlNorm = normalize(xmlTime);
-    const yandexNorm = normalize(yandexHours);
-
-    // Проверка на круглосуточно
-    const is24x7Xml = /круглосуточно|24\s*\/?\s*7|24\s*часа/.test(xmlNorm);
-    const is24x7Yandex = /круглосуточно|24\s*\/?\s*7|24\s*часа/.test(yandexNorm);
-
-    if (is24x7Xml && !is24x7Yandex) {
-        return { match: false, reason: "Ожидалось: круглосуточно" };
-    }
-
-    if (is24x7Xml && is24x7Yandex) {
-        return { match: true };
+function unmatchedDiff(company: Company, conflicts: MappingConflict[], pinned?: MappingEntry): Diff {
+    const base = { companyId: company.companyId, name: company.name, address: company.address };
+    const conflict = conflicts.find((c) => c.companyIds.includes(company.companyId));
+
+    if (conflict) {
+        return {
+            ...base,
+            field: "Сопоставление",
+            expected: "Отдельный филиал на Яндекс.Картах",
+            actual: `Филиал ${conflict.yandexId} сопоставлен с компаниями ${conflict.companyIds.join(", ")}`,
+        };
     }
-
-    // Извлечение временных интервалов (формат HH:MM-HH:MM)
-    const timePattern = /(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})/g;
-    const xmlIntervals = [...xmlNorm.matchAll(timePattern)].map((m) => `${m[1]}-${m[2]}`);
-    const yandexIntervals = [...yandexNorm.matchAll(timePattern)].map((m) => `${m[1]}-${m[2]}`);
-
-    if (xmlIntervals.length > 0) {
-        const xmlInterval = xmlIntervals[0];
-        const hasMatch = yandexIntervals.some((yi) => yi === xmlInterval);
-
-        if (!hasMatch) {
-            return { match: false, reason: `Ожидалось: ${xmlInterval}` };
-        }
+    if (pinned) {
+        return { ...base, field: "Сопоставление", expected: `Закреплённый филиал ${pinned.yandexId}`, actual: "Не найден в кабинете" };
     }
-
-    return { match: true };
-}
-
-/**
- * Поиск соответствующего филиала на Яндекс.Картах по названию или адресу
- */
-function findMatchingBranch(company: Company, branches: YandexBranch[]): YandexBranch | undefined {
-    const companyName = normalize(company.name);
-    const companyAddress = normalize(company.address);
-
-    return branches.find((branch) => {
-        const branchName = normalize(branch.name);
-        const branchAddress = normalize(branch.address);
-
-        // Совпадение по адресу (основной критерий)
-        if (companyAddress && branchAddress && branchAddress.includes(companyAddress.slice(0, 20))) {
-            return true;
-        }
-
-        // Совпадение по названию
-        if (companyName && branchName && branchName.includes(companyName)) {
-            return true;
-        }
-
-        return false;
-    });
+    return { ...base, expected: "Найден на Яндекс.Картах", actual: "Не найден" };
 }
 
 /**
  * Основная функция мониторинга
  */
-export async function runMonitor(options: { dryRun?: boolean; verbose?: boolean } = {}) {
-    const { dryRun = false, verbose = false } = options;
+export async function runMonitor(options: { dryRun?: boolean; verbose?: boolean; xmlSource?: string; strict?: boolean; exportFeed?: string } = {}) {
+    const { dryRun = false, verbose = false, xmlSource = env.XML_URL, strict = env.FEED_LINT_ABORT === "true", exportFeed } = options;
 
     console.log("🚀 Запуск мониторинга Яндекс.Карт\n");
 
     const diffs: Diff[] = [];
+    const tolerated: Diff[] = []; // совпадения с расхождениями в пределах допуска
+    let conflicts: MappingConflict[] = []; // филиалы, сопоставленные с несколькими компаниями
+    const review: MatchReviewItem[] = []; // сопоставления с низкой уверенностью или неоднозначные
     let xmlCompanies: Company[] = [];
+    let feedXml = ""; // исходный текст фида для выгрузки исправленного фида
     let yandexBranches: YandexBranch[] = [];
 
     try {
         // 1. Загрузка данных из XML
         console.log("📄 Загрузка данных из XML...");
-        if (!env.XML_URL) {
+        if (!xmlSource) {
             console.warn("⚠️  XML_URL не задан, пропускаем загрузку XML");
         } else {
-            xmlCompanies = await loadCompanies();
+            ({ xml: feedXml, companies: xmlCompanies } = await loadFeed(xmlSource));
             console.log(`   Загружено компаний: ${xmlCompanies.length}`);
+
+            // Проверка фида до сравнения
+            const lint = lintCompanies(xmlCompanies);
+            await fs.mkdir("./data", { recursive: true });
+            await fs.writeFile("./data/feed-lint.json", JSON.stringify({ timestamp: new Date().toISOString(), ...lint }, null, 2), "utf8");
+            if (lint.issues.length > 0) {
+                console.log(`   🧾 Проверка фида: ошибок ${lint.errors}, предупреждений ${lint.warnings} (./data/feed-lint.json)`);
+                if (verbose) lint.issues.forEach((issue) => console.log(`      ${formatLintIssue(issue)}`));
+                if (!dryRun) await reportFeedLint(lint);
+            }
+            if (strict && lint.errors > 0) {
+                throw new Error(`Фид содержит ошибок: ${lint.errors}, сравнение не выполняется`);
+            }
         }
 
         // 2. Авторизация и загрузка филиалов с Яндекс.Карт
@@ -135,11 +133,36 @@ export async function runMonitor(options: { dryRun?: boolean; verbose?: boolean
         await fs.mkdir("./data", { recursive: true });
         await fs.writeFile("./data/monitor-branches.json", JSON.stringify(yandexBranches, null, 2), "utf8");
         if (xmlCompanies.length > 0) {
+            // Что изменилось в фиде с прошлого запуска (подробно: npm run feed:diff)
+            // Сравнение вспомогательное: испорченный или старый снимок не должен прерывать мониторинг
+            try {
+                const previous = await loadFeedSnapshot("./data/monitor-xml.json").catch((e) => {
+                    if (e?.code === "ENOENT") return undefined; // первый запуск
+                    throw e;
+                });
+                if (previous) {
+                    const feedDiff = diffFeeds(previous, xmlCompanies);
+                    await fs.writeFile("./data/feed-diff.json", JSON.stringify({ timestamp: new Date().toISOString(), ...feedDiff }, null, 2), "utf8");
+                    if (feedDiff.added.length || feedDiff.removed.length || feedDiff.changed.length) {
+                        console.log(
+                            `   🧾 Фид с прошлого запуска: +${feedDiff.added.length} −${feedDiff.removed.length}, изменено ${feedDiff.changed.length} (./data/feed-diff.json)`
+                        );
+                    }
+                }
+            } catch (e: any) {
+                console.warn(`   ⚠️  Не удалось сравнить фид с прошлым запуском: ${e?.message || e}`);
+            }
             await fs.writeFile("./data/monitor-xml.json", JSON.stringify(xmlCompanies, null, 2), "utf8");
         }
 
         // 3. Сравнение данных
         console.log("\n🔍 Сравнение данных...");
+        const today = dayjs().format("YYYY-MM-DD"); // для особого режима (праздники)
+        const rubricNames = collectRubricNames(yandexBranches, await loadRubricNames(env.RUBRICS_FILE));
+        const specialToday = xmlCompanies.filter((c) => c.specialHours?.[today]).length;
+        if (specialToday > 0) {
+            console.log(`   📅 Особый режим на ${today}: ${specialToday} компаний`);
+        }
 
         if (xmlCompanies.length === 0) {
             // Если XML не задан, проверяем только наличие филиалов
@@ -158,35 +181,83 @@ export async function runMonitor(options: { dryRun?: boolean; verbose?: boolean
                 }
             }
         } else {
+            // Сопоставление компаний с филиалами: сохранённое между запусками, новые — нечётким поиском
+            // по адресу, координатам и названию
+            const mapping = await loadMapping(env.MAPPING_FILE);
+            const resolved = resolveMatches(xmlCompanies, yandexBranches, mapping, (c) => {
+                const match = matchBranch(c, yandexBranches, { maxDistanceM: env.MAX_DISTANCE_METERS, minConfidence: env.MATCH_MIN_CONFIDENCE });
+                return match.branch && { branch: match.branch, confidence: match.confidence, ambiguous: match.ambiguous };
+            });
+            await saveMapping(env.MAPPING_FILE, resolved.mapping);
+            conflicts = resolved.conflicts;
+            if (conflicts.length > 0) {
+                console.log(`   ⚠️  Конфликтов сопоставления: ${conflicts.length}`);
+            }
+
+            // Автоматические сопоставления, требующие проверки (до ручного закрепления)
+            for (const company of xmlCompanies) {
+                const entry = resolved.mapping[company.companyId];
+                const branch = resolved.matches.get(company.companyId);
+                if (!branch || entry?.source !== "auto" || entry.confidence === undefined) continue;
+                if (entry.confidence >= env.MATCH_MIN_CONFIDENCE && !entry.ambiguous) continue;
+                review.push({
+                    companyId: company.companyId,
+                    name: company.name,
+                    address: company.address,
+                    branchId: entry.yandexId,
+                    branchName: branch.name,
+                    branchAddress: branch.address,
+                    confidence: entry.confidence,
+                    ambiguous: !!entry.ambiguous,
+                    url: branch.url,
+                });
+            }
+            if (review.length > 0) {
+                console.log(`   🔎 Сопоставлений для проверки: ${review.length}`);
+            }
+
             // Полное сравнение XML с Яндекс.Картами
             for (const company of xmlCompanies) {
-                const branch = findMatchingBranch(company, yandexBranches);
+                const branch = resolved.matches.get(company.companyId);
 
                 if (!branch) {
-                    diffs.push({
-                        companyId: company.companyId,
-                        name: company.name,
-                        address: company.address,
-                        expected: "Найден на Яндекс.Картах",
-                        actual: "Не найден",
-                    });
+                    diffs.push(unmatchedDiff(company, resolved.conflicts, resolved.missingPinned.includes(company) ? mapping[company.companyId] : undefined));
                     continue;
                 }
 
+                const results: FieldCompareResult[] = [];
+
                 // Сравнение режима работы
                 if (company.workingTime && company.workingTime !== "—") {
-                    const result = compareWorkingTime(company.workingTime, branch.hours);
-
-                    if (!result.match) {
-                        diffs.push({
-                            companyId: company.companyId,
-                            name: company.name,
-                            address: company.address,
-                            expected: company.workingTime,
-                            actual: branch.hours || "(не указано)",
-                            url: branch.url,
-                        });
-                    }
+                    const hours = compareWorkingTime(company.workingTime, branch.hours, scheduleToleranceFor(company.companyId), {
+                        specialHours: company.specialHours,
+                        date: today,
+                    });
+                    results.push({ field: "Режим работы", ...hours });
+                }
+
+                // Сравнение контактов: телефоны, e-mail, сайт, доп. ссылки
+                results.push(...compareContacts(company, branch));
+
+                // Название карточки — русское название из XML
+                const name = compareName(company.name, branch.name);
+                if (name) results.push(name);
+
+                // Адрес: различия в записи игнорируются, расхождением считается другая улица/дом/корпус
+                const address = compareAddress(company.address, branch.address);
+                if (address) results.push(address);
+
+                // Смещение метки на карте относительно координат из XML
+                const coords = compareCoordinates(company, branch, env.COORDS_DRIFT_THRESHOLD_M);
+                if (coords) results.push(coords);
+
+                // Виды деятельности: рубрики из XML должны оставаться в карточке
+                const rubrics = compareRubrics(company.rubricIds, branch.rubrics, rubricNames);
+                if (rubrics) results.push(rubrics);
+
+                for (const result of results) {
+                    if (!result.ok) diffs.push(toDiff(company, branch, result));
+                    else if (result.tolerated?.length) tolerated.push(toDiff(company, branch, result));
                 }
 
                 if (verbose) {
@@ -200,10 +271,14 @@ export async function runMonitor(options: { dryRun?: boolean; verbose?: boolean
 
         const totalChecked = xmlCompanies.length > 0 ? xmlCompanies.length : yandexBranches.length;
 
+        if (review.length > 0 && !dryRun) {
+            await reportMatchReview(review);
+        }
+
         if (diffs.length === 0) {
             console.log(`   ✅ Все ${totalChecked} точек в порядке`);
             if (!dryRun) {
-                await reportAllOk(totalChecked);
+                await reportAllOk(totalChecked, tolerated.length);
                 console.log("   📨 Отчёт отправлен");
             } else {
                 console.log("   🔄 Dry-run: отправка пропущена");
@@ -212,7 +287,8 @@ export async function runMonitor(options: { dryRun?: boolean; verbose?: boolean
             console.log(`   ⚠️  Найдено расхождений: ${diffs.length}`);
             if (verbose) {
                 diffs.forEach((d) => {
-                    console.log(`      - ${d.name}: ${d.expected} → ${d.actual}`);
+                    console.log(`      - ${d.name}${d.field ? ` [${d.field}]` : ""}: ${d.expected} → ${d.actual}`);
+                    d.reasons?.forEach((r) => console.log(`          ${r}`));
                 });
             }
             if (!dryRun) {
@@ -232,6 +308,9 @@ export async function runMonitor(options: { dryRun?: boolean; verbose?: boolean
                     totalChecked,
                     diffsCount: diffs.length,
                     diffs,
+                    tolerated,
+                    conflicts,
+                    review,
                 },
                 null,
                 2
@@ -240,7 +319,18 @@ export async function runMonitor(options: { dryRun?: boolean; verbose?: boolean
         );
         console.log("\n💾 Результаты сохранены в ./data/monitor-result.json");
 
-        return { success: true, totalChecked, diffs };
+        // Исправленный фид: компании с расхождениями в полях фида (не сопоставленные не выгружаются)
+        if (exportFeed && feedXml) {
+            const companyIds = new Set(diffs.filter((d) => d.field && d.field !== "Сопоставление").map((d) => d.companyId));
+            if (companyIds.size > 0) {
+                await fs.writeFile(exportFeed, buildCorrectedFeed(feedXml, companyIds), "utf8");
+                console.log(`📝 Исправленный фид (${companyIds.size} компаний) сохранён в ${exportFeed}`);
+            } else {
+                console.log("📝 Расхождений в полях фида нет, исправленный фид не нужен");
+            }
+        }
+
+        return { success: true, totalChecked, diffs, tolerated, conflicts, review };
     } finally {
         await closeBrowser();
     }
@@ -257,8 +347,14 @@ const isDirectRun = (() => {
 if (isDirectRun) {
     const dryRun = process.argv.includes("--dry-run");
     const verbose = process.argv.includes("--verbose") || process.argv.includes("-v");
-
-    runMonitor({ dryRun, verbose })
+    const xmlFlag = process.argv.indexOf("--xml");
+    const xmlSource = xmlFlag !== -1 ? process.argv[xmlFlag + 1] : undefined; // путь, file://, URL или «-» (stdin)
+    const strict = process.argv.includes("--strict") ? true : undefined; // прервать при ошибках в фиде
+    const exportFlag = process.argv.indexOf("--export-feed");
+    const exportPath = process.argv[exportFlag + 1];
+    const exportFeed = exportFlag === -1 ? undefined : exportPath && !exportPath.startsWith("-") ? exportPath : "./data/corrected-feed.xml";
+
+    runMonitor({ dryRun, verbose, xmlSource, strict, exportFeed })
         .then((result) => {
             console.log("\n✅ Мониторинг завершён");
             if (result.diffs.length > 0) {
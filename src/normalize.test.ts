@@ -0,0 +1,172 @@
+import {
+    normalizeXmlWorkingTime,
+    normalizeYandexHours,
+    formatSchedule,
+    withOverrides,
+    weekdayOf,
+    normalizePhone,
+    normalizeUrl,
+    normalizeEmail,
+    WEEKDAYS,
+    type Interval,
+    type Schedule,
+} from "./normalize.js";
+
+const daily = (...intervals: Interval[]): Schedule["byDay"] => Object.fromEntries(WEEKDAYS.map((d) => [d, intervals]));
+
+describe("normalizeXmlWorkingTime", () => {
+    it("should parse daily formats from the feed", () => {
+        const expected = { is24x7: false, byDay: daily({ from: "09:00", to: "22:00" }) };
+        expect(normalizeXmlWorkingTime("ежедневн. 09:00 - 22:00")).toEqual(expected);
+        expect(normalizeXmlWorkingTime("ежедн. 09:00-22:00")).toEqual(expected);
+        expect(normalizeXmlWorkingTime("ежеднев. 9:00-22:00")).toEqual(expected);
+        expect(normalizeXmlWorkingTime("ежедневн.09:00-22:00")).toEqual(expected);
+        expect(normalizeXmlWorkingTime("09:00-22:00")).toEqual(expected);
+        expect(normalizeXmlWorkingTime("с 9:00 до 22:00")).toEqual(expected);
+    });
+
+    it("should treat round-the-clock as 24x7", () => {
+        expect(normalizeXmlWorkingTime("круглосуточно")).toEqual({ is24x7: true, byDay: {} });
+        expect(normalizeXmlWorkingTime("пн-вс круглосуточно")).toEqual({ is24x7: true, byDay: {} });
+    });
+
+    it("should parse weekday/weekend split", () => {
+        const result = normalizeXmlWorkingTime("пн-пт 09:00-21:00, сб-вс 10:00-20:00");
+        expect(result.is24x7).toBe(false);
+        expect(result.byDay.mon).toEqual([{ from: "09:00", to: "21:00" }]);
+        expect(result.byDay.fri).toEqual([{ from: "09:00", to: "21:00" }]);
+        expect(result.byDay.sat).toEqual([{ from: "10:00", to: "20:00" }]);
+        expect(result.byDay.sun).toEqual([{ from: "10:00", to: "20:00" }]);
+    });
+
+    it("should parse per-day lists and full day names", () => {
+        const result = normalizeXmlWorkingTime("Понедельник, среда, пятница: 10:00–19:00; вт, чт 12:00-20:00");
+        expect(result.byDay.mon).toEqual([{ from: "10:00", to: "19:00" }]);
+        expect(result.byDay.wed).toEqual([{ from: "10:00", to: "19:00" }]);
+        expect(result.byDay.tue).toEqual([{ from: "12:00", to: "20:00" }]);
+        expect(result.byDay.thu).toEqual([{ from: "12:00", to: "20:00" }]);
+        expect(result.byDay.sat).toEqual([]);
+        expect(result.byDay.sun).toEqual([]);
+    });
+
+    it("should mark days off", () => {
+        const result = normalizeXmlWorkingTime("пн-сб 09:00-18:00, вс выходной");
+        expect(result.byDay.sat).toEqual([{ from: "09:00", to: "18:00" }]);
+        expect(result.byDay.sun).toEqual([]);
+
+        const weekend = normalizeXmlWorkingTime("будни 09:00-18:00, выходные: сб, вс");
+        expect(weekend.byDay.mon).toEqual([{ from: "09:00", to: "18:00" }]);
+        expect(weekend.byDay.sat).toEqual([]);
+        expect(weekend.byDay.sun).toEqual([]);
+    });
+
+    it("should treat 'выходные' followed by time as weekend days", () => {
+        const result = normalizeXmlWorkingTime("будни 09:00-21:00, выходные 10:00-18:00");
+        expect(result.byDay.tue).toEqual([{ from: "09:00", to: "21:00" }]);
+        expect(result.byDay.sat).toEqual([{ from: "10:00", to: "18:00" }]);
+        expect(result.byDay.sun).toEqual([{ from: "10:00", to: "18:00" }]);
+    });
+
+    it("should keep past-midnight ranges", () => {
+        const result = normalizeXmlWorkingTime("пт-сб 20:00-02:00");
+        expect(result.byDay.fri).toEqual([{ from: "20:00", to: "02:00" }]);
+        expect(result.byDay.sat).toEqual([{ from: "20:00", to: "02:00" }]);
+        expect(result.byDay.mon).toEqual([]);
+    });
+
+    it("should collect several intervals per day", () => {
+        const result = normalizeXmlWorkingTime("пн-пт 09:00-13:00, 14:00-18:00, сб 10:00-14:00");
+        expect(result.byDay.thu).toEqual([
+            { from: "09:00", to: "13:00" },
+            { from: "14:00", to: "18:00" },
+        ]);
+        expect(result.byDay.sat).toEqual([{ from: "10:00", to: "14:00" }]);
+    });
+
+    it("should return empty byDay for unknown format", () => {
+        expect(normalizeXmlWorkingTime("по договорённости")).toEqual({ is24x7: false, byDay: {} });
+    });
+});
+
+describe("lunch breaks", () => {
+    it("should split intervals by lunch break", () => {
+        const result = normalizeXmlWorkingTime("пн-пт 09:00-18:00, перерыв 13:00-14:00, сб-вс выходной");
+        expect(result.byDay.mon).toEqual([
+            { from: "09:00", to: "13:00" },
+            { from: "14:00", to: "18:00" },
+        ]);
+        expect(result.byDay.sun).toEqual([]);
+    });
+});
+
+describe("formatSchedule", () => {
+    it("should group consecutive days with the same intervals", () => {
+        expect(formatSchedule(normalizeXmlWorkingTime("ежедневн. 09:00 - 22:00"))).toBe("ежедневно 09:00-22:00");
+        expect(formatSchedule(normalizeXmlWorkingTime("пн-пт 09:00-21:00, сб 10:00-20:00"))).toBe("пн-пт 09:00-21:00; сб 10:00-20:00; вс выходной");
+        expect(formatSchedule(normalizeXmlWorkingTime("круглосуточно"))).toBe("круглосуточно");
+        expect(formatSchedule({ is24x7: false, byDay: {} })).toBe("(не распознано)");
+    });
+});
+
+describe("normalizeYandexHours", () => {
+    it("should parse compact sprav diff format", () => {
+        const result = normalizeYandexHours("Пн-Вс 8-21,55");
+        expect(result.byDay.mon).toEqual([{ from: "08:00", to: "21:55" }]);
+        expect(result.byDay.sun).toEqual([{ from: "08:00", to: "21:55" }]);
+
+        const split = normalizeYandexHours("Пн-Пт 9-18, Сб 10-16");
+        expect(split.byDay.fri).toEqual([{ from: "09:00", to: "18:00" }]);
+        expect(split.byDay.sat).toEqual([{ from: "10:00", to: "16:00" }]);
+        expect(split.byDay.sun).toEqual([]);
+    });
+
+    it("should parse cabinet hours text", () => {
+        expect(normalizeYandexHours("Ежедневно, круглосуточно")).toEqual({ is24x7: true, byDay: {} });
+        const result = normalizeYandexHours("пн-пт 9:00–21:00 без перерыва; сб, вс 10:00–20:00");
+        expect(result.byDay.wed).toEqual([{ from: "09:00", to: "21:00" }]);
+        expect(result.byDay.sat).toEqual([{ from: "10:00", to: "20:00" }]);
+    });
+
+    it("should treat empty text as unrecognized", () => {
+        expect(normalizeYandexHours("")).toEqual({ is24x7: false, byDay: {} });
+        expect(normalizeYandexHours(undefined)).toEqual({ is24x7: false, byDay: {} });
+    });
+});
+
+describe("withOverrides", () => {
+    it("should attach parsed special hours by date", () => {
+        const schedule = withOverrides(normalizeXmlWorkingTime("ежедневно 09:00-22:00"), {
+            "2026-01-01": "выходной",
+            "2026-01-07": "круглосуточно",
+            "2026-05-09": "пн-пт 10:00-18:00, сб-вс 12:00-16:00",
+            "не дата": "10:00-18:00",
+        });
+        expect(schedule.overrides).toEqual({
+            "2026-01-01": [],
+            "2026-01-07": [{ from: "00:00", to: "24:00" }],
+            "2026-05-09": [{ from: "12:00", to: "16:00" }],
+        });
+    });
+
+    it("should map dates to weekdays", () => {
+        expect(weekdayOf("2026-01-01")).toBe("thu");
+        expect(weekdayOf("2026-05-09")).toBe("sat");
+        expect(weekdayOf("01.01.2026")).toBeUndefined();
+    });
+});
+
+describe("contact normalizers", () => {
+    it("should normalize phone formats", () => {
+        expect(normalizePhone("+7 (812) 740-11-55")).toBe("+78127401155");
+        expect(normalizePhone("8 812 740 11 55")).toBe("+78127401155");
+        expect(normalizePhone("(812) 740-11-55")).toBe("+78127401155");
+        expect(normalizePhone("+7 812 740-11-55 доб. 123")).toBe("+78127401155");
+    });
+
+    it("should normalize urls and emails", () => {
+        expect(normalizeUrl("https://rosal24.ru/")).toBe("rosal24.ru");
+        expect(normalizeUrl("http://WWW.Rosal24.ru")).toBe("rosal24.ru");
+        expect(normalizeUrl("https://vk.com/RosAl24_spb/")).toBe("vk.com/RosAl24_spb");
+        expect(normalizeEmail(" Admin@Rosal24.ru ")).toBe("admin@rosal24.ru");
+    });
+});
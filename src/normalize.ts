@@ -1,29 +1,316 @@
+import { normalizeDiffTimeValue } from "./branch-utils.js";
+
 export type Weekday = "mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun";
 export type Interval = { from: string; to: string };
 export type Schedule = {
     is24x7: boolean;
     byDay: Partial<Record<Weekday, Interval[]>>;
+    overrides?: Record<string, Interval[]>; // особый режим по датам «YYYY-MM-DD» (праздники), [] — выходной
 };
 
-const allDays: Weekday[] = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"];
+export const WEEKDAYS: Weekday[] = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"];
+
+export const DAY_LABELS: Record<Weekday, string> = { mon: "пн", tue: "вт", wed: "ср", thu: "чт", fri: "пт", sat: "сб", sun: "вс" };
+
+// Префиксы названий дней недели: «пн», «пон», «понедельник», «вс», «воскресенье» и т.д.
+const DAY_PREFIXES: Array<[RegExp, Weekday]> = [
+    [/^(пн|пон)/, "mon"],
+    [/^вт/, "tue"],
+    [/^ср/, "wed"],
+    [/^(чт|чет)/, "thu"],
+    [/^(пт|пят)/, "fri"],
+    [/^(сб|суб)/, "sat"],
+    [/^(вс|вос)/, "sun"],
+];
+
+const DAY_WORD = "понедельник[а-я]*|вторник[а-я]*|сред[а-я]*|четверг[а-я]*|пятниц[а-я]*|суббот[а-я]*|воскресень[а-я]*|пн|пон|вт|ср|чт|пт|сб|вс";
+const TIME = "\\d{1,2}[:.]\\d{2}";
 
-// Нормализация «ежедневно. 09:00 - 22:00», «ежедн. 09:00-22:00», «круглосуточно»
+// Токены расписания: диапазон дней, день, интервал времени и ключевые слова
+const TOKEN_RE = new RegExp(
+    [
+        `(?<![а-я])(?<dayFrom>${DAY_WORD})\\.?\\s*-\\s*(?<dayTo>${DAY_WORD})(?![а-я])`,
+        `(?<![а-я])(?<day>${DAY_WORD})(?![а-я])`,
+        `(?:с\\s*)?(?<from>${TIME})\\s*(?:-|до)\\s*(?<to>${TIME})`,
+        `(?<noLunch>без\\s+перерыв[а-я]*|без\\s+обеда)`,
+        `(?<lunch>перерыв|обед)`,
+        `(?<allDay>круглосуточн[а-я]*|24\\s*/\\s*7|24\\s*часа)`,
+        `(?<closed>выходн(?:ой|ые)|не\\s+работает|закрыто)`,
+        `(?<weekdays>будни|рабочие\\s+дни)`,
+        `(?<daily>ежедн[а-я]*|без\\s+выходных)`,
+    ].join("|"),
+    "g"
+);
+
+const ALL_DAY: Interval = { from: "00:00", to: "24:00" };
+
+type Group = { days: Weekday[]; intervals: Interval[]; breaks: Interval[]; closed: boolean; allDay: boolean };
+
+/**
+ * Нормализация режима работы из XML в структуру Schedule
+ *
+ * Поддерживаемые форматы:
+ * - «ежедневно. 09:00 - 22:00», «ежедн. 09:00-22:00», «09:00-22:00», «круглосуточно»
+ * - «пн-пт 09:00-21:00, сб-вс 10:00-20:00», «пн, ср, пт 10:00-19:00»
+ * - «сб выходной», «вс — выходной»
+ * - интервалы через полночь: «20:00-02:00»
+ * - несколько интервалов в день: «пн-пт 09:00-13:00, 14:00-18:00»
+ * - перерыв на обед: «пн-пт 09:00-18:00, перерыв 13:00-14:00»
+ *
+ * Дни, не упомянутые в расписании с явными днями недели, считаются выходными.
+ * Нераспознанный формат возвращает пустой byDay (считается несовпадением).
+ */
 export function normalizeXmlWorkingTime(text: string): Schedule {
-    const t = (text || "").toLowerCase().replace(/\s+/g, " ").replace(/[.–—]/g, "-").trim();
-    if (!t || /круглосуточно/.test(t)) return { is24x7: true, byDay: {} };
-    const m = t.match(/(ежедн|ежедневно)[^.]*\.?\s*(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})/);
-    if (m) {
-        const from = pad(m[2]);
-        const to = pad(m[3]);
-        const byDay: Schedule["byDay"] = {};
-        for (const d of allDays) byDay[d] = [{ from, to }];
-        return { is24x7: false, byDay };
+    const t = (text || "").toLowerCase().replace(/ё/g, "е").replace(/[–—−]/g, "-").replace(/\s+/g, " ").trim();
+    if (!t) return { is24x7: true, byDay: {} };
+
+    const groups = parseGroups(t);
+    if (!groups.length) return { is24x7: false, byDay: {} };
+
+    const byDay: Schedule["byDay"] = {};
+    const hasExplicitDays = groups.some((g) => g.days.length > 0);
+
+    // Сначала группы без дней (применяются ко всей неделе), затем с явными днями.
+    // «выходной» без дней при явном перечислении дней ничего не добавляет.
+    const ordered = [...groups.filter((g) => !g.days.length), ...groups.filter((g) => g.days.length)];
+    for (const group of ordered) {
+        if (!group.days.length && group.closed && hasExplicitDays) continue;
+        const days = group.days.length ? group.days : WEEKDAYS;
+        for (const day of days) {
+            if (group.closed) byDay[day] = [];
+            else if (group.allDay) byDay[day] = [{ ...ALL_DAY }];
+            else byDay[day] = subtractBreaks(group.intervals, group.breaks);
+        }
+    }
+
+    // Неупомянутые дни — выходные
+    for (const day of WEEKDAYS) {
+        if (!byDay[day]) byDay[day] = [];
     }
-    // Фоллбек: неизвестный формат -> пустой (считаться будет как несовпадение)
-    return { is24x7: false, byDay: {} };
+
+    const is24x7 = WEEKDAYS.every((d) => isAllDay(byDay[d]));
+    return is24x7 ? { is24x7: true, byDay: {} } : { is24x7: false, byDay };
+}
+
+/**
+ * Добавление особого режима по датам (праздничный календарь) к расписанию
+ * specialHours: «YYYY-MM-DD» → текст режима в формате XML («выходной», «10:00-18:00», «круглосуточно»)
+ */
+export function withOverrides(schedule: Schedule, specialHours: Record<string, string> | undefined): Schedule {
+    const overrides: Record<string, Interval[]> = {};
+    for (const [date, text] of Object.entries(specialHours ?? {})) {
+        const day = weekdayOf(date);
+        const parsed = normalizeXmlWorkingTime(text);
+        if (!day || (!parsed.is24x7 && !Object.keys(parsed.byDay).length)) continue;
+        overrides[date] = daySchedule(parsed, day);
+    }
+    if (!Object.keys(overrides).length) return schedule;
+    return { ...schedule, overrides: { ...schedule.overrides, ...overrides } };
+}
+
+/**
+ * День недели для даты «YYYY-MM-DD»
+ */
+export function weekdayOf(date: string): Weekday | undefined {
+    const m = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!m) return undefined;
+    const day = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3])).getDay();
+    return Number.isNaN(day) ? undefined : WEEKDAYS[(day + 6) % 7];
+}
+
+/**
+ * Нормализация режима работы из кабинета Яндекс.Бизнес (sprav) в структуру Schedule
+ *
+ * Помимо форматов XML понимает компактную запись из истории изменений
+ * («Пн-Вс 8-21,55», «Пн-Пт 9-18, Сб 10-16»). Пустая строка — не распознано.
+ */
+export function normalizeYandexHours(text: string | undefined): Schedule {
+    const t = normalizeDiffTimeValue(text).trim();
+    if (!t) return { is24x7: false, byDay: {} };
+    return normalizeXmlWorkingTime(t);
+}
+
+/**
+ * Разбор строки на группы «дни → интервалы»
+ * Новая группа начинается, когда после интервалов встречается очередной день недели
+ */
+function parseGroups(t: string): Group[] {
+    const groups: Group[] = [];
+
+    const hasContent = (g: Group) => g.intervals.length > 0 || g.closed || g.allDay;
+    const current = (): Group | undefined => groups[groups.length - 1];
+    const startGroup = (): Group => {
+        const group: Group = { days: [], intervals: [], breaks: [], closed: false, allDay: false };
+        groups.push(group);
+        return group;
+    };
+    // «выходные: сб, вс» — группа закрытия ждёт перечисления дней
+    const groupForDays = (): Group => {
+        const group = current();
+        return group && (!hasContent(group) || (group.closed && !group.days.length)) ? group : startGroup();
+    };
+    const groupForValue = (): Group => current() ?? startGroup();
+    let lunchPending = false;
+
+    for (const m of t.matchAll(TOKEN_RE)) {
+        const g = m.groups ?? {};
+        if (g.dayFrom && g.dayTo) {
+            const from = toWeekday(g.dayFrom);
+            const to = toWeekday(g.dayTo);
+            if (from && to) pushDays(groupForDays(), dayRange(from, to));
+        } else if (g.day) {
+            const day = toWeekday(g.day);
+            if (day) pushDays(groupForDays(), [day]);
+        } else if (g.from && g.to) {
+            const interval = { from: pad(g.from), to: pad(g.to) };
+            if (lunchPending) groupForValue().breaks.push(interval);
+            else groupForValue().intervals.push(interval);
+            lunchPending = false;
+        } else if (g.noLunch) {
+            lunchPending = false;
+        } else if (g.lunch) {
+            lunchPending = true;
+        } else if (g.allDay) {
+            groupForValue().allDay = true;
+        } else if (g.closed) {
+            const group = current();
+            const rest = t.slice((m.index ?? 0) + m[0].length);
+            if (group && group.days.length && !hasContent(group)) group.closed = true;
+            // «выходные 10:00-18:00» — это суббота и воскресенье, а не закрытие
+            else if (/выходные/.test(g.closed) && /^\s*:?\s*(с\s*)?\d/.test(rest)) pushDays(groupForDays(), ["sat", "sun"]);
+            else startGroup().closed = true;
+        } else if (g.weekdays) {
+            pushDays(groupForDays(), ["mon", "tue", "wed", "thu", "fri"]);
+        } else if (g.daily) {
+            pushDays(groupForDays(), WEEKDAYS);
+        }
+    }
+
+    return groups.filter(hasContent);
+}
+
+function pushDays(group: Group, days: Weekday[]) {
+    for (const d of days) if (!group.days.includes(d)) group.days.push(d);
+}
+
+function toWeekday(word: string): Weekday | undefined {
+    return DAY_PREFIXES.find(([re]) => re.test(word))?.[1];
+}
+
+function dayRange(from: Weekday, to: Weekday): Weekday[] {
+    const start = WEEKDAYS.indexOf(from);
+    const end = WEEKDAYS.indexOf(to);
+    const length = ((end - start + 7) % 7) + 1;
+    return Array.from({ length }, (_, i) => WEEKDAYS[(start + i) % 7]);
+}
+
+/**
+ * Вычитание перерывов из интервалов работы
+ */
+function subtractBreaks(intervals: Interval[], breaks: Interval[]): Interval[] {
+    let spans = intervals.map(toSpan);
+    for (const br of breaks.map(toSpan)) {
+        spans = spans.flatMap(([from, to]): Array<[number, number]> => {
+            // перерыв в ночной части интервала переносим на следующие сутки
+            const [bFrom, bTo] = br[0] < from ? [br[0] + 1440, br[1] + 1440] : br;
+            if (bTo <= from || bFrom >= to) return [[from, to]];
+            const pieces: Array<[number, number]> = [
+                [from, bFrom],
+                [bTo, to],
+            ];
+            return pieces.filter(([a, b]) => b > a);
+        });
+    }
+    return spans.map(([from, to]) => ({ from: fromMinutes(from), to: fromMinutes(to) }));
+}
+
+function toSpan(interval: Interval): [number, number] {
+    const from = toMinutes(interval.from);
+    const to = toMinutes(interval.to);
+    return [from, to <= from ? to + 1440 : to];
+}
+
+/**
+ * «HH:MM» → минуты от начала суток
+ */
+export function toMinutes(hhmm: string): number {
+    const [h, m] = hhmm.split(":").map(Number);
+    return h * 60 + m;
+}
+
+function fromMinutes(minutes: number): string {
+    if (minutes === 1440) return "24:00";
+    const value = minutes % 1440;
+    return `${String(Math.floor(value / 60)).padStart(2, "0")}:${String(value % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Интервалы работы в конкретный день (круглосуточно → 00:00-24:00)
+ */
+export function daySchedule(schedule: Schedule, day: Weekday): Interval[] {
+    return schedule.is24x7 ? [{ ...ALL_DAY }] : (schedule.byDay[day] ?? []);
+}
+
+export function formatIntervals(intervals: Interval[]): string {
+    return intervals.length ? intervals.map((i) => `${i.from}-${i.to}`).join(", ") : "выходной";
+}
+
+/**
+ * Человекочитаемое представление расписания: «пн-пт 09:00-21:00; сб-вс 10:00-20:00»
+ */
+export function formatSchedule(schedule: Schedule): string {
+    if (schedule.is24x7) return "круглосуточно";
+    if (!Object.keys(schedule.byDay).length) return "(не распознано)";
+
+    const parts: string[] = [];
+    let start = 0;
+    for (let i = 1; i <= WEEKDAYS.length; i++) {
+        const prev = formatIntervals(daySchedule(schedule, WEEKDAYS[i - 1]));
+        if (i < WEEKDAYS.length && formatIntervals(daySchedule(schedule, WEEKDAYS[i])) === prev) continue;
+        if (start === 0 && i === WEEKDAYS.length) return `ежедневно ${prev}`;
+        const days = i - 1 === start ? DAY_LABELS[WEEKDAYS[start]] : `${DAY_LABELS[WEEKDAYS[start]]}-${DAY_LABELS[WEEKDAYS[i - 1]]}`;
+        parts.push(`${days} ${prev}`);
+        start = i;
+    }
+    return parts.join("; ");
+}
+
+function isAllDay(intervals: Interval[] | undefined): boolean {
+    return !!intervals && intervals.length === 1 && intervals[0].from === "00:00" && (intervals[0].to === "24:00" || intervals[0].to === "00:00");
 }
 
 function pad(hhmm: string) {
-    const [h, m] = hhmm.split(":");
+    const [h, m] = hhmm.split(/[:.]/);
     return `${h.padStart(2, "0")}:${m}`;
 }
+
+/**
+ * Нормализация телефона: «+7 (812) 740-11-55», «8 812 740 11 55» → «+78127401155»
+ * Добавочный номер («доб. 123») отбрасывается
+ */
+export function normalizePhone(phone: string): string {
+    const digits = phone.split(/доб|ext|#/i)[0].replace(/\D/g, "");
+    if (digits.length === 11 && digits.startsWith("8")) return `+7${digits.slice(1)}`;
+    if (digits.length === 10) return `+7${digits}`;
+    return digits ? `+${digits}` : "";
+}
+
+/**
+ * Нормализация ссылки: без протокола, «www.» и завершающего «/», домен в нижнем регистре
+ */
+export function normalizeUrl(url: string): string {
+    const t = url
+        .trim()
+        .replace(/^https?:\/\//i, "")
+        .replace(/^www\./i, "")
+        .replace(/\/+$/, "");
+    const slash = t.indexOf("/");
+    return slash === -1 ? t.toLowerCase() : t.slice(0, slash).toLowerCase() + t.slice(slash);
+}
+
+export function normalizeEmail(email: string): string {
+    return email
+        .trim()
+        .toLowerCase()
+        .replace(/^mailto:/, "");
+}
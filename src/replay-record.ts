@@ -0,0 +1,105 @@
+/**
+ * Запись снимков кабинета для офлайн-тестов (src/replay-server.ts)
+ *
+ * Использование:
+ *   npm run replay:record                                   - 2 страницы списка и история 3 филиалов в ./fixtures/yandex
+ *   npm run replay:record -- --pages 3 --changes 5 --out ./fixtures/yandex-full
+ *
+ * Сохраняются разметка страниц без скриптов и ответы API со списком филиалов.
+ * Перед коммитом снимки стоит просмотреть: в них реальные данные кабинета
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import type { Page } from "playwright";
+import { ensureYandexAuth, newPage, closeBrowser, branchesFromResponse } from "./yandex.js";
+import { fixtureName } from "./replay-server.js";
+import { env } from "./config.js";
+
+function argValue(args: string[], flag: string): string | undefined {
+    const index = args.indexOf(flag);
+    return index !== -1 ? args[index + 1] : undefined;
+}
+
+/**
+ * Разметка страницы без скриптов; ссылки на кабинет становятся относительными, чтобы вести на локальный сервер
+ */
+async function snapshot(page: Page): Promise<string> {
+    const origin = new URL(page.url()).origin;
+    return (await page.content())
+        .replace(/<script[\s\S]*?<\/script>/gi, "")
+        .split(origin)
+        .join("");
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    const pages = Number(argValue(args, "--pages") ?? 2);
+    const changes = Number(argValue(args, "--changes") ?? 3);
+    const out = argValue(args, "--out") ?? "./fixtures/yandex";
+
+    if (!(await ensureYandexAuth())) {
+        throw new Error("Авторизация Яндекс не выполнена");
+    }
+    await fs.mkdir(out, { recursive: true });
+
+    const page = await newPage();
+    let apiResponse: unknown;
+    page.on("response", (response) => {
+        if (!(response.headers()["content-type"] || "").includes("json")) return;
+        response
+            .json()
+            .then((json) => {
+                if (branchesFromResponse(json)?.length) apiResponse = json;
+            })
+            .catch(() => {});
+    });
+
+    // Список филиалов: снимок и ответ API для каждой страницы
+    console.log(`🌐 ${env.CHAIN_BRANCHES_URL}`);
+    await page.goto(env.CHAIN_BRANCHES_URL, { waitUntil: "domcontentloaded", timeout: 60000 });
+    await page.waitForLoadState("networkidle", { timeout: 30000 }).catch(() => {});
+
+    const branchLinks = new Set<string>();
+    for (let n = 1; n <= pages; n++) {
+        const name = n > 1 ? `branches-${n}` : "branches";
+        await fs.writeFile(path.join(out, `${name}.html`), await snapshot(page), "utf8");
+        if (apiResponse) await fs.writeFile(path.join(out, `${name}.json`), JSON.stringify(apiResponse, null, 2), "utf8");
+        console.log(`   💾 ${name}.html${apiResponse ? `, ${name}.json` : ""}`);
+        apiResponse = undefined;
+
+        const hrefs = await page.$$eval('a[href*="/sprav/"]', (links) => links.map((a) => (a as HTMLAnchorElement).href));
+        hrefs.filter((href) => /\/sprav\/\d+\/p\/edit\//.test(href)).forEach((href) => branchLinks.add(href));
+
+        const next = page.locator(".Pagination-Link", { hasText: /Вперед|далее|→/ }).first();
+        if (n === pages || (await next.count()) === 0) break;
+        await next.click();
+        await page.waitForTimeout(1000);
+        await page.waitForLoadState("networkidle", { timeout: 15000 }).catch(() => {});
+    }
+    await page.close();
+
+    // История изменений первых филиалов
+    for (const href of Array.from(branchLinks).slice(0, changes)) {
+        const changesUrl = href.replace(/\/p\/edit\/[^/]*\/?$/, "/p/edit/changes/");
+        const changesPage = await newPage();
+        try {
+            await changesPage.goto(changesUrl, { waitUntil: "domcontentloaded", timeout: 60000 });
+            await changesPage.waitForLoadState("networkidle", { timeout: 30000 }).catch(() => {});
+            const name = fixtureName(new URL(changesUrl).pathname);
+            await fs.writeFile(path.join(out, `${name}.html`), await snapshot(changesPage), "utf8");
+            console.log(`   💾 ${name}.html`);
+        } finally {
+            await changesPage.close();
+        }
+    }
+
+    console.log(`\n✅ Снимки сохранены в ${out}`);
+}
+
+main()
+    .catch((e) => {
+        console.error(`❌ Ошибка: ${e?.message || e}`);
+        process.exitCode = 1;
+    })
+    .finally(() => closeBrowser());
@@ -0,0 +1,75 @@
+import path from "path";
+import { startReplayServer, fixtureName, renderTimestamps, type ReplayServer } from "./replay-server.js";
+
+const FIXTURES = path.resolve("fixtures/yandex");
+
+describe("fixtureName", () => {
+    it("should map page paths to snapshot names", () => {
+        expect(fixtureName("/branches")).toBe("branches");
+        expect(fixtureName("/sprav/1001/p/edit/changes/")).toBe("sprav_1001_p_edit_changes");
+        expect(fixtureName("/")).toBe("index");
+    });
+});
+
+describe("renderTimestamps", () => {
+    it("should render relative change times in Moscow time", () => {
+        const now = new Date("2025-11-11T07:52:00Z");
+        expect(renderTimestamps("{{ago:2h}} / {{ago:30m}} / {{ago:1d}}", now)).toBe("11-11-2025 · 08:52 / 11-11-2025 · 10:22 / 10-11-2025 · 10:52");
+    });
+});
+
+describe("startReplayServer", () => {
+    let server: ReplayServer;
+
+    beforeAll(async () => {
+        server = await startReplayServer(FIXTURES);
+    });
+
+    afterAll(async () => {
+        await server.close();
+    });
+
+    it("should serve snapshots with the pagination script", async () => {
+        const response = await fetch(`${server.url}/branches`);
+        const html = await response.text();
+        expect(response.status).toBe(200);
+        expect(html).toContain("BranchesList-CompanyRow");
+        expect(html).toContain("Pagination-Link");
+        expect(html).toMatch(/<script>[\s\S]*<\/script><\/body>/);
+    });
+
+    it("should serve the next page as a body fragment", async () => {
+        const html = await (await fetch(`${server.url}/branches?page=2&partial=1`)).text();
+        expect(html).toContain("/sprav/1003/p/edit/");
+        expect(html).not.toContain("<body");
+        expect(html).not.toContain("<script>");
+    });
+
+    it("should serve recorded API responses", async () => {
+        const response = await fetch(`${server.url}/api/branches?page=2`);
+        expect(response.headers.get("content-type")).toContain("application/json");
+        expect((await response.json()).data.chainBranches.items[0].id).toBe(1003);
+        expect((await fetch(`${server.url}/api/branches?page=1`)).status).toBe(404);
+    });
+
+    it("should serve the script that loads more history", async () => {
+        const html = await (await fetch(`${server.url}/sprav/1002/p/edit/changes/`)).text();
+        expect(html).toContain("Показать ещё");
+        expect(html).toContain("morePage");
+        const more = await (await fetch(`${server.url}/sprav/1002/p/edit/changes/?page=2&partial=1`)).text();
+        expect(more.match(/CompanyChangesPage-Request/g)).toHaveLength(2);
+        expect((await fetch(`${server.url}/sprav/1002/p/edit/changes/?page=3&partial=1`)).status).toBe(404);
+    });
+
+    it("should show the captcha only on the first request with captcha=once", async () => {
+        expect(await (await fetch(`${server.url}/branches?captcha=once`)).text()).toContain("<smart-captcha>");
+        expect(await (await fetch(`${server.url}/branches?captcha=once`)).text()).toContain("BranchesList-CompanyRow");
+    });
+
+    it("should render change times and return 404 for unknown pages", async () => {
+        const html = await (await fetch(`${server.url}/sprav/1001/p/edit/changes/`)).text();
+        expect(html).not.toContain("{{ago");
+        expect(html).toMatch(/\d{2}-\d{2}-\d{4} · \d{2}:\d{2}/);
+        expect((await fetch(`${server.url}/sprav/9999/p/edit/changes/`)).status).toBe(404);
+    });
+});
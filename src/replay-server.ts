@@ -0,0 +1,162 @@
+/**
+ * Локальная замена кабинета Яндекс.Бизнеса для тестов: отдаёт записанные снимки страниц
+ * (npm run replay:record) и ответы API, имитируя пагинацию списка филиалов
+ *
+ * Снимки лежат в одном каталоге, имя файла — путь страницы без слешей по краям, «/» → «_»:
+ *   /branches                    → branches.html, страница N → branches-N.html
+ *   /api/branches?page=N         → branches-N.json (страница 1 — branches.json)
+ *   /sprav/1001/p/edit/changes/  → sprav_1001_p_edit_changes.html
+ *
+ * Кнопка «Показать ещё» дописывает перед собой следующую страницу снимка (страница N → <имя>-N.html),
+ * а когда страниц больше нет — исчезает
+ *
+ * Параметр ?captcha=once: первый запрос страницы получает captcha.html, следующие — сам снимок
+ * (капча пропала после паузы)
+ *
+ * В снимках можно использовать метки {{ago:2h}} / {{ago:30m}} / {{ago:3d}} — время изменения
+ * относительно момента запроса в формате кабинета «17-09-2025 · 02:05» (московское время)
+ */
+
+import http from "http";
+import { promises as fs } from "fs";
+import path from "path";
+import type { AddressInfo } from "net";
+
+export type ReplayServer = {
+    url: string; // http://127.0.0.1:<порт>
+    close: () => Promise<void>;
+};
+
+// Клик по пагинации подгружает следующую страницу без перехода, как в кабинете: сначала ответ API, затем разметка.
+// «Показать ещё» дописывает следующую страницу к текущей
+const REPLAY_SCRIPT = `<script>
+(function () {
+    var morePage = 1;
+    function load(page) {
+        var api = "/api" + location.pathname + "?page=" + page;
+        return fetch(api).catch(function () {}).then(function () {
+            return fetch(location.pathname + "?page=" + page + "&partial=1");
+        });
+    }
+    fetch("/api" + location.pathname + "?page=1").catch(function () {});
+    document.addEventListener("click", function (event) {
+        var more = event.target.closest && event.target.closest("button, a, [role='button']");
+        if (more && /показать (ещё|еще)|загрузить (ещё|еще)/i.test(more.textContent)) {
+            event.preventDefault();
+            morePage += 1;
+            fetch(location.pathname + "?page=" + morePage + "&partial=1").then(function (response) {
+                if (!response.ok) return more.remove();
+                return response.text().then(function (html) {
+                    more.insertAdjacentHTML("beforebegin", html);
+                });
+            });
+            return;
+        }
+        var link = event.target.closest && event.target.closest(".Pagination-Link");
+        if (!link || link.classList.contains("ya-business-link_disabled")) return;
+        event.preventDefault();
+        var selected = document.querySelector(".Pagination-Link_selected");
+        var current = Number(selected && selected.textContent.trim()) || 1;
+        var text = link.textContent.trim();
+        var page = /^\\d+$/.test(text) ? Number(text) : current + 1;
+        load(page).then(function (response) {
+            if (!response.ok) return;
+            return response.text().then(function (html) {
+                document.body.innerHTML = html;
+            });
+        });
+    });
+})();
+</script>`;
+
+/**
+ * Имя снимка для пути страницы: «/sprav/1001/p/edit/changes/» → «sprav_1001_p_edit_changes»
+ */
+export function fixtureName(pathname: string): string {
+    return pathname.replace(/^\/+|\/+$/g, "").replace(/\//g, "_") || "index";
+}
+
+/**
+ * Подстановка меток {{ago:…}} временем изменения в формате кабинета
+ */
+export function renderTimestamps(html: string, now = new Date()): string {
+    const units: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000 };
+    return html.replace(/\{\{ago:(\d+)([mhd])\}\}/g, (_, amount: string, unit: string) =>
+        formatChangeTime(new Date(now.getTime() - Number(amount) * units[unit]))
+    );
+}
+
+function formatChangeTime(date: Date): string {
+    const parts = Object.fromEntries(
+        new Intl.DateTimeFormat("ru-RU", {
+            timeZone: "Europe/Moscow",
+            year: "numeric",
+            month: "2-digit",
+            day: "2-digit",
+            hour: "2-digit",
+            minute: "2-digit",
+            hourCycle: "h23",
+        })
+            .formatToParts(date)
+            .map((p) => [p.type, p.value])
+    );
+    return `${parts.day}-${parts.month}-${parts.year} · ${parts.hour}:${parts.minute}`;
+}
+
+/**
+ * Запуск сервера на свободном порту. dir — каталог со снимками
+ */
+export async function startReplayServer(dir: string): Promise<ReplayServer> {
+    const captchaShown = new Set<string>(); // страницы с ?captcha=once, где капча уже была
+    const server = http.createServer((req, res) => {
+        handle(dir, req, captchaShown)
+            .then(({ status, type, body }) => {
+                res.writeHead(status, { "Content-Type": `${type}; charset=utf-8` });
+                res.end(body);
+            })
+            .catch((error) => {
+                res.writeHead(500, { "Content-Type": "text/plain; charset=utf-8" });
+                res.end(String(error?.message || error));
+            });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+    };
+}
+
+async function handle(dir: string, req: http.IncomingMessage, captchaShown: Set<string>): Promise<{ status: number; type: string; body: string }> {
+    const url = new URL(req.url || "/", "http://localhost");
+    const page = Number(url.searchParams.get("page")) || 1;
+    const notFound = { status: 404, type: "text/plain", body: "Not found" };
+
+    if (url.searchParams.get("captcha") === "once" && !url.pathname.startsWith("/api/") && !captchaShown.has(url.pathname)) {
+        captchaShown.add(url.pathname);
+        const captcha = await readFixture(dir, "captcha", 1, ".html");
+        return captcha === undefined ? notFound : { status: 200, type: "text/html", body: captcha };
+    }
+
+    if (url.pathname.startsWith("/api/")) {
+        const json = await readFixture(dir, fixtureName(url.pathname.slice("/api".length)), page, ".json");
+        return json === undefined ? notFound : { status: 200, type: "application/json", body: json };
+    }
+
+    const html = await readFixture(dir, fixtureName(url.pathname), page, ".html");
+    if (html === undefined) return notFound;
+
+    const rendered = renderTimestamps(html);
+    if (url.searchParams.has("partial")) {
+        return { status: 200, type: "text/html", body: rendered.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? rendered };
+    }
+    const body = rendered.includes("</body>") ? rendered.replace("</body>", `${REPLAY_SCRIPT}</body>`) : rendered + REPLAY_SCRIPT;
+    return { status: 200, type: "text/html", body };
+}
+
+async function readFixture(dir: string, name: string, page: number, ext: string): Promise<string | undefined> {
+    const file = path.join(dir, page > 1 ? `${name}-${page}${ext}` : `${name}${ext}`);
+    return fs.readFile(file, "utf8").catch(() => undefined);
+}
@@ -1,16 +1,35 @@
 import { sendMessage, sendChunks } from "./telegram.js";
+import { formatLintIssue, type FeedLintReport } from "./feed-lint.js";
 
 type ItemDiff = {
     companyId: string;
     name: string;
     address: string;
+    field?: string;
     expected: string;
     actual?: string;
     url?: string;
+    reasons?: string[]; // расхождения вне допуска
+    tolerated?: string[]; // расхождения в пределах допуска
 };
 
-export async function reportAllOk(count: number) {
-    const msg = `✅ Проверка завершена\nВсе ${count} точек в порядке. Данные на Яндекс.Картах соответствуют XML.`;
+export type MatchReviewItem = {
+    companyId: string;
+    name: string;
+    address: string;
+    branchId: string;
+    branchName?: string;
+    branchAddress?: string;
+    confidence: number; // 0..1
+    ambiguous: boolean;
+    url?: string;
+};
+
+export async function reportAllOk(count: number, toleratedCount = 0) {
+    let msg = `✅ Проверка завершена\nВсе ${count} точек в порядке. Данные на Яндекс.Картах соответствуют XML.`;
+    if (toleratedCount > 0) {
+        msg += `\nС расхождениями в пределах допуска: ${toleratedCount}`;
+    }
     await sendMessage(msg);
 }
 
@@ -21,8 +40,37 @@ export async function reportDiffs(diffs: ItemDiff[]) {
             `\n❌ ID: ${d.companyId}\n` +
             ` Название: ${d.name}\n` +
             ` Адрес: ${d.address}\n` +
+            (d.field ? ` Поле: ${d.field}\n` : "") +
             ` Ожидалось: ${d.expected}\n` +
-            ` На картах: ${d.actual || "—"}${d.url ? `\n Карточка: ${d.url}` : ""}`
+            ` На картах: ${d.actual || "—"}` +
+            formatList("Расхождения", d.reasons) +
+            formatList("В пределах допуска", d.tolerated) +
+            `${d.url ? `\n Карточка: ${d.url}` : ""}`
+    );
+    await sendChunks(head, lines.join("\n"));
+}
+
+export async function reportMatchReview(items: MatchReviewItem[]) {
+    const head = `🔎 Сопоставления для проверки: ${items.length}\nЗакрепить верный филиал: npm run mapping -- set <company-id> <id филиала>`;
+    const lines = items.map(
+        (m) =>
+            `\n❓ ID: ${m.companyId}\n` +
+            ` Название: ${m.name}\n` +
+            ` Адрес: ${m.address}\n` +
+            ` Филиал: ${m.branchId}${m.branchName ? ` — ${m.branchName}` : ""}\n` +
+            ` Адрес на картах: ${m.branchAddress || "—"}\n` +
+            ` Уверенность: ${Math.round(m.confidence * 100)}%${m.ambiguous ? " (есть близкий по оценке филиал)" : ""}` +
+            `${m.url ? `\n Карточка: ${m.url}` : ""}`
     );
     await sendChunks(head, lines.join("\n"));
 }
+
+export async function reportFeedLint(report: FeedLintReport) {
+    const head = `🧾 Проверка XML-фида (${report.total} компаний): ошибок ${report.errors}, предупреждений ${report.warnings}`;
+    await sendChunks(head, report.issues.map(formatLintIssue).join("\n"));
+}
+
+function formatList(title: string, items: string[] | undefined) {
+    if (!items?.length) return "";
+    return `\n ${title}:` + items.map((item) => `\n  • ${item}`).join("");
+}
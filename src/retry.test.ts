@@ -0,0 +1,57 @@
+import { withRetry, backoffDelay, createErrorBudget } from "./retry.js";
+
+const noSleep = () => Promise.resolve();
+
+describe("backoffDelay", () => {
+    it("should double the delay with jitter and cap it", () => {
+        const options = { retries: 5, baseDelayMs: 1000, maxDelayMs: 5000, jitter: 0.5 };
+        expect(backoffDelay(1, options, () => 0.5)).toBe(1000);
+        expect(backoffDelay(3, options, () => 0.5)).toBe(4000);
+        expect(backoffDelay(4, options, () => 0.5)).toBe(5000);
+        expect(backoffDelay(2, options, () => 0)).toBe(1000);
+        expect(backoffDelay(2, options, () => 1)).toBe(3000);
+    });
+});
+
+describe("withRetry", () => {
+    it("should retry until success", async () => {
+        const delays: number[] = [];
+        let calls = 0;
+        const result = await withRetry(
+            async () => {
+                if (++calls < 3) throw new Error("timeout");
+                return "ok";
+            },
+            { retries: 3, baseDelayMs: 100, jitter: 0, sleep: noSleep, onRetry: (_, __, delay) => delays.push(delay) }
+        );
+        expect(result).toBe("ok");
+        expect(delays).toEqual([100, 200]);
+    });
+
+    it("should rethrow the last error after all retries", async () => {
+        let calls = 0;
+        const failing = () => {
+            calls++;
+            return Promise.reject(new Error(`timeout ${calls}`));
+        };
+        await expect(withRetry(failing, { retries: 2, baseDelayMs: 10, sleep: noSleep })).rejects.toThrow("timeout 3");
+        expect(calls).toBe(3);
+    });
+
+    it("should stop retrying once the run's error budget is spent", async () => {
+        const budget = createErrorBudget(4);
+        let calls = 0;
+        const failing = () => {
+            calls++;
+            return Promise.reject(new Error("net::ERR_CONNECTION_RESET"));
+        };
+
+        await expect(withRetry(failing, { retries: 2, baseDelayMs: 10, sleep: noSleep, budget })).rejects.toThrow("ERR_CONNECTION_RESET");
+        await expect(withRetry(failing, { retries: 2, baseDelayMs: 10, sleep: noSleep, budget })).rejects.toThrow("ERR_CONNECTION_RESET");
+        expect(calls).toBe(4);
+        expect(budget.remaining()).toBe(0);
+
+        await expect(withRetry(failing, { retries: 2, baseDelayMs: 10, sleep: noSleep, budget })).rejects.toThrow("Исчерпан лимит ошибок");
+        expect(calls).toBe(4);
+    });
+});
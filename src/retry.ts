@@ -0,0 +1,70 @@
+/**
+ * Повторы с экспоненциальной задержкой и случайным разбросом, общий лимит ошибок на запуск
+ */
+
+export type RetryOptions = {
+    retries: number; // повторов после первой попытки
+    baseDelayMs: number; // задержка перед первым повтором, дальше удваивается
+    maxDelayMs?: number;
+    jitter?: number; // случайное отклонение задержки, доля 0..1
+};
+
+/**
+ * Лимит ошибок на запуск: когда он исчерпан, новые попытки не выполняются
+ */
+export type ErrorBudget = {
+    spend: () => void;
+    exhausted: () => boolean;
+    remaining: () => number;
+};
+
+export function createErrorBudget(limit: number): ErrorBudget {
+    let errors = 0;
+    return {
+        spend: () => {
+            errors++;
+        },
+        exhausted: () => errors >= limit,
+        remaining: () => Math.max(0, limit - errors),
+    };
+}
+
+/**
+ * Задержка перед повтором attempt (с 1): baseDelayMs · 2^(attempt-1) ± jitter
+ */
+export function backoffDelay(attempt: number, options: RetryOptions, random = Math.random): number {
+    const delay = Math.min(options.baseDelayMs * 2 ** (attempt - 1), options.maxDelayMs ?? Infinity);
+    const jitter = options.jitter ?? 0.3;
+    return Math.round(delay * (1 - jitter + 2 * jitter * random()));
+}
+
+/**
+ * Выполнение fn с повторами. Каждая ошибка расходует budget; при исчерпанном лимите
+ * попытка не выполняется, а последняя ошибка пробрасывается без повторов
+ */
+export async function withRetry<T>(
+    fn: (attempt: number) => Promise<T>,
+    options: RetryOptions & {
+        budget?: ErrorBudget;
+        onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+        sleep?: (ms: number) => Promise<void>;
+    }
+): Promise<T> {
+    const sleep = options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+
+    for (let attempt = 1; ; attempt++) {
+        if (options.budget?.exhausted()) {
+            throw new Error("Исчерпан лимит ошибок за запуск, попытка не выполняется");
+        }
+        try {
+            return await fn(attempt);
+        } catch (error) {
+            options.budget?.spend();
+            if (attempt > options.retries || options.budget?.exhausted()) throw error;
+
+            const delayMs = backoffDelay(attempt, options);
+            options.onRetry?.(error, attempt, delayMs);
+            await sleep(delayMs);
+        }
+    }
+}
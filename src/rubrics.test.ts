@@ -0,0 +1,45 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { collectRubricNames, formatRubric, loadRubricNames } from "./rubrics.js";
+import { compareRubrics } from "./compare.js";
+
+describe("rubric names", () => {
+    it("should collect names from map data without overriding the file", () => {
+        const names = collectRubricNames(
+            [{ rubrics: [{ id: "1", name: "Из карт" }, { id: "2", name: "Бар" }, { name: "Без id" }] }, {}],
+            new Map([["1", "Из файла"]])
+        );
+        expect([...names]).toEqual([
+            ["1", "Из файла"],
+            ["2", "Бар"],
+        ]);
+    });
+
+    it("should format rubric with or without a known name", () => {
+        const names = new Map([["2", "Бар"]]);
+        expect(formatRubric("2", names)).toBe("Бар (2)");
+        expect(formatRubric("3", names)).toBe("рубрика 3");
+    });
+
+    it("should name feed rubrics without a rubrics file", async () => {
+        const names = await loadRubricNames(path.join(os.tmpdir(), "missing-rubrics.json"));
+
+        expect(compareRubrics(["184107899", "184108031"], [{ id: "184107899" }], names)?.reasons).toEqual(["Нет на картах: Магазин пива (184108031)"]);
+    });
+
+    it("should let the rubrics file override built-in names", async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), "rubrics-"));
+        try {
+            const file = path.join(dir, "rubrics.json");
+            await fs.writeFile(file, JSON.stringify({ "184106384": "Бар", "1": "Кафе" }), "utf8");
+            const names = await loadRubricNames(file);
+
+            expect(names.get("184106384")).toBe("Бар");
+            expect(names.get("184107899")).toBe("Магазин алкогольных напитков");
+            expect(names.get("1")).toBe("Кафе");
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+});
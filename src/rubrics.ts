@@ -0,0 +1,54 @@
+import { promises as fs } from "fs";
+
+/**
+ * Рубрика (вид деятельности) карточки: на картах может быть известен только id или только название
+ */
+export type Rubric = { id?: string; name?: string };
+
+export type RubricNames = Map<string, string>; // rubric-id -> название
+
+/**
+ * Названия рубрик из фида, чтобы отчёт был понятен и без RUBRICS_FILE
+ */
+export const DEFAULT_RUBRIC_NAMES: Record<string, string> = {
+    "184107899": "Магазин алкогольных напитков",
+    "184106384": "Бар, паб",
+    "184108031": "Магазин пива",
+};
+
+/**
+ * Справочник названий рубрик: встроенные названия, поверх них — JSON-файл вида { "184107899": "Название" }
+ * (отсутствующий файл — только встроенные названия)
+ */
+export async function loadRubricNames(path: string): Promise<RubricNames> {
+    const names: RubricNames = new Map(Object.entries(DEFAULT_RUBRIC_NAMES));
+    try {
+        const data: Record<string, unknown> = JSON.parse(await fs.readFile(path, "utf8"));
+        for (const [id, name] of Object.entries(data)) names.set(id, String(name));
+    } catch (error: any) {
+        if (error?.code !== "ENOENT") {
+            console.warn(`⚠️  Не удалось прочитать справочник рубрик ${path}: ${error?.message || error}`);
+        }
+    }
+    return names;
+}
+
+/**
+ * Дополняет справочник названиями рубрик, пришедшими с карточками Яндекса.
+ * Записи из файла имеют приоритет
+ */
+export function collectRubricNames(branches: { rubrics?: Rubric[] }[], names: RubricNames = new Map()): RubricNames {
+    const result = new Map(names);
+    for (const rubric of branches.flatMap((b) => b.rubrics ?? [])) {
+        if (rubric.id && rubric.name && !result.has(rubric.id)) result.set(rubric.id, rubric.name);
+    }
+    return result;
+}
+
+/**
+ * Рубрика для отчёта: «Название (id)», если название известно
+ */
+export function formatRubric(id: string, names: RubricNames): string {
+    const name = names.get(id);
+    return name ? `${name} (${id})` : `рубрика ${id}`;
+}
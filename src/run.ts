@@ -1,6 +1,8 @@
 import { promises as fs } from "fs";
 import { ensureYandexAuth, closeBrowser, fetchBranches, type YandexBranch } from "./yandex.js";
 import { sendMessage } from "./telegram.js";
+import { summarizeCheckStatuses, formatCheckSummaryLines } from "./branch-utils.js";
+import { env } from "./config.js";
 
 /**
  * Отправка отчёта о сборе филиалов в Telegram
@@ -8,11 +10,14 @@ import { sendMessage } from "./telegram.js";
 async function sendRunReport(branches: YandexBranch[]): Promise<void> {
     const withChanges = branches.filter(b => b.changesHistory && b.changesHistory.length > 0);
     const totalChanges = withChanges.reduce((sum, b) => sum + (b.changesHistory?.length || 0), 0);
+    // Филиалы, чью историю не удалось прочитать, не должны выглядеть как филиалы без изменений
+    const checkSummary = summarizeCheckStatuses(branches.filter(b => b.changesUrl).map(b => b.checkStatus));
 
     const lines = [
         `📦 Сбор филиалов завершён`,
         ``,
         `Всего филиалов: ${branches.length}`,
+        ...formatCheckSummaryLines(checkSummary, env.CHECK_MIN_COVERAGE),
         `С историей изменений: ${withChanges.length}`,
         `Всего изменений: ${totalChanges}`,
         ``,
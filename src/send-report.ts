@@ -12,9 +12,11 @@
 
 import { sendMessage, sendDocument } from "./telegram.js";
 import { reportAllOk, reportDiffs } from "./report.js";
+import { analyzeChanges, loadBranches, reportCaption } from "./analyze-changes.js";
 import { existsSync } from "fs";
 
 const DEFAULT_PDF = "./analysis-report.pdf";
+const BRANCHES_FILE = "./data/branches.json";
 
 async function main() {
     const args = process.argv.slice(2);
@@ -60,8 +62,13 @@ async function main() {
                 return;
             }
 
+            // В подписи — сколько филиалов удалось проверить: пустая история непроверенных ничего не значит
+            const caption = existsSync(BRANCHES_FILE)
+                ? reportCaption(analyzeChanges(await loadBranches(BRANCHES_FILE)))
+                : `📊 Отчёт по изменениям филиалов\n${new Date().toLocaleDateString("ru-RU")}`;
+
             console.log(`📤 Отправка PDF: ${pdfPath}...`);
-            await sendDocument(pdfPath, `📊 Отчёт по изменениям филиалов\n${new Date().toLocaleDateString("ru-RU")}`);
+            await sendDocument(pdfPath, caption);
             console.log("✅ PDF отправлен!");
         } else {
             // Произвольное сообщение
@@ -31,6 +31,17 @@ export async function sendDocument(filePath: string, caption?: string) {
     );
 }
 
+/**
+ * Отправка изображения (скриншота) в Telegram
+ */
+export async function sendPhoto(photo: Buffer, caption?: string) {
+    if (!bot) {
+        console.warn("⚠️  Telegram bot не настроен, изображение не отправлено");
+        return;
+    }
+    return bot.telegram.sendPhoto(CHAT_ID as any, { source: photo }, { caption });
+}
+
 // Утилита: разбиение длинных сообщений по лимиту 4096
 export async function sendChunks(prefix: string, body: string) {
     const TELEGRAM_LIMIT = 4096;
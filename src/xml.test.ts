@@ -0,0 +1,93 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+import { gzipSync } from "zlib";
+import { parseCompanies, applyHolidayCalendar, readFeed } from "./xml.js";
+
+const FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<companies>
+    <company>
+        <company-id>5343658</company-id>
+        <name lang="ru">РосАл</name>
+        <shortname lang="ru">РосАл</shortname>
+        <name lang="en">RosAl</name>
+        <shortname lang="en">RosAl</shortname>
+        <address lang="ru">Санкт-Петербург, 7-я Красноармейская улица, 23</address>
+        <coordinates>
+            <lat>59.91173612</lat>
+            <lon>30.31000224</lon>
+        </coordinates>
+        <phone>
+            <number>+7 (812) 740-11-55</number>
+            <type>phone</type>
+        </phone>
+        <email>admin@rosal24.ru</email>
+        <url>https://rosal24.ru/</url>
+        <add-url>https://t.me/RosAl_Admin_bot</add-url>
+        <add-url>https://vk.com/rosal24_spb</add-url>
+        <working-time lang="ru">ежедневн. 09:00 - 22:00</working-time>
+        <rubric-id>184107899</rubric-id>
+        <actualization-date>1761026831</actualization-date>
+    </company>
+</companies>`;
+
+describe("parseCompanies", () => {
+    it("should keep names per language", () => {
+        const [company] = parseCompanies(FEED);
+        expect(company.name).toBe("РосАл");
+        expect(company.names).toEqual({ ru: "РосАл", en: "RosAl" });
+        expect(company.shortnames).toEqual({ ru: "РосАл", en: "RosAl" });
+        expect(company.address).toBe("Санкт-Петербург, 7-я Красноармейская улица, 23");
+    });
+
+    it("should parse contacts, coordinates and rubrics", () => {
+        const [company] = parseCompanies(FEED);
+        expect(company).toMatchObject({
+            companyId: "5343658",
+            lat: 59.91173612,
+            lon: 30.31000224,
+            workingTime: "ежедневн. 09:00 - 22:00",
+            phones: ["+7 (812) 740-11-55"],
+            emails: ["admin@rosal24.ru"],
+            url: "https://rosal24.ru/",
+            addUrls: ["https://t.me/RosAl_Admin_bot", "https://vk.com/rosal24_spb"],
+            rubricIds: ["184107899"],
+            actualizationDate: 1761026831,
+        });
+    });
+});
+
+describe("applyHolidayCalendar", () => {
+    it("should prefer per-company special hours", () => {
+        const companies = applyHolidayCalendar(parseCompanies(FEED), {
+            default: { "2026-01-01": "выходной", "2026-01-02": "10:00-18:00" },
+            companies: { "5343658": { "2026-01-01": "круглосуточно" } },
+        });
+        expect(companies[0].specialHours).toEqual({ "2026-01-01": "круглосуточно", "2026-01-02": "10:00-18:00" });
+    });
+});
+
+describe("readFeed", () => {
+    let dir: string;
+
+    beforeAll(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), "feed-"));
+        await fs.writeFile(path.join(dir, "feed.xml"), FEED, "utf8");
+        await fs.writeFile(path.join(dir, "feed.xml.gz"), gzipSync(Buffer.from(FEED, "utf8")));
+    });
+
+    afterAll(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it("should read a local path and a file:// url", async () => {
+        expect(await readFeed(path.join(dir, "feed.xml"))).toBe(FEED);
+        expect(await readFeed(pathToFileURL(path.join(dir, "feed.xml")).href)).toBe(FEED);
+    });
+
+    it("should unpack gzip-compressed feeds", async () => {
+        const xml = await readFeed(path.join(dir, "feed.xml.gz"));
+        expect(parseCompanies(xml)[0].name).toBe("РосАл");
+    });
+});
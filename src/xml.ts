@@ -1,14 +1,40 @@
 import axios from "axios";
+import { promises as fs } from "fs";
+import { fileURLToPath } from "url";
+import { gunzipSync } from "zlib";
 import { env } from "./config.js";
 import { XMLParser } from "fast-xml-parser";
 
 export type Company = {
     companyId: string;
-    name: string;
+    actualizationDate?: number; // <actualization-date>, unix-время последнего изменения записи партнёром
+    name: string; // русское название (<name lang="ru">)
+    names: Record<string, string>; // название по языкам: { ru: "РосАл", en: "RosAl" }
+    shortnames: Record<string, string>; // <shortname> по языкам
     address: string;
     lat: number;
     lon: number;
     workingTime: string; // как в XML
+    phones: string[]; // как в XML, например "+7 (812) 740-11-55"
+    emails: string[];
+    url?: string; // основной сайт
+    addUrls: string[]; // дополнительные ссылки (соцсети, мессенджеры)
+    rubricIds: string[]; // <rubric-id>, виды деятельности
+    specialHours?: Record<string, string>; // особый режим по датам «YYYY-MM-DD» (из праздничного календаря)
+};
+
+/**
+ * Праздничный календарь: особый режим работы по датам
+ * default — для всех компаний, companies — исключения по company-id (имеют приоритет)
+ *
+ * {
+ *   "default": { "2026-01-01": "выходной", "2026-01-02": "10:00-18:00" },
+ *   "companies": { "5343658": { "2026-01-01": "круглосуточно" } }
+ * }
+ */
+export type HolidayCalendar = {
+    default?: Record<string, string>;
+    companies?: Record<string, Record<string, string>>;
 };
 
 function extractText(value: unknown): string {
@@ -31,27 +57,140 @@ function extractText(value: unknown): string {
     return String(value);
 }
 
-export async function loadCompanies(): Promise<Company[]> {
-    if (!env.XML_URL) {
+/**
+ * Значения по языкам из <name lang="ru">…</name><name lang="en">…</name>; без атрибута lang — русский
+ */
+function extractByLang(value: unknown): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const v of ([] as unknown[]).concat(value ?? [])) {
+        const lang = v && typeof v === "object" && "lang" in v ? String(v.lang) : "ru";
+        const text = extractText(v);
+        if (text !== "—" && !(lang in result)) result[lang] = text;
+    }
+    return result;
+}
+
+/**
+ * Текст на русском (или на первом указанном языке) из многоязычного поля
+ */
+function extractRu(value: unknown): string {
+    const byLang = extractByLang(value);
+    return byLang.ru ?? Object.values(byLang)[0] ?? "—";
+}
+
+/**
+ * Приведение одиночного значения или массива к массиву строк
+ */
+function extractList(value: unknown): string[] {
+    if (value === undefined || value === null || value === "") return [];
+    return ([] as unknown[])
+        .concat(value)
+        .map((v) => extractText(v))
+        .filter((v) => v && v !== "—");
+}
+
+/**
+ * Телефоны из <phone><number>…</number><type>phone</type></phone>
+ */
+function extractPhones(value: unknown): string[] {
+    return ([] as unknown[])
+        .concat(value ?? [])
+        .map((p) => (p && typeof p === "object" && "number" in p ? p.number : p))
+        .flatMap((p) => extractList(p));
+}
+
+/**
+ * Загрузка компаний из фида. source — http(s)-адрес, file://-адрес, путь к файлу или «-» (stdin);
+ * по умолчанию XML_URL
+ */
+export async function loadCompanies(source = env.XML_URL): Promise<Company[]> {
+    return (await loadFeed(source)).companies;
+}
+
+/**
+ * Компании вместе с исходным текстом фида (нужен для выгрузки исправленного фида)
+ */
+export async function loadFeed(source = env.XML_URL): Promise<{ xml: string; companies: Company[] }> {
+    if (!source) {
         throw new Error("XML_URL не задан в конфигурации");
     }
-    const { data } = await axios.get(env.XML_URL, {
-        timeout: env.HTTP_TIMEOUT_MS,
-    });
+    const xml = await readFeed(source);
+    return { xml, companies: applyHolidayCalendar(parseCompanies(xml), await loadHolidayCalendar(env.HOLIDAYS_FILE)) };
+}
+
+/**
+ * Чтение фида из любого источника; сжатый gzip фид распаковывается по сигнатуре, а не по расширению
+ */
+export async function readFeed(source: string): Promise<string> {
+    let data: Buffer;
+    if (source === "-") {
+        const chunks: Buffer[] = [];
+        for await (const chunk of process.stdin) chunks.push(Buffer.from(chunk));
+        data = Buffer.concat(chunks);
+    } else if (/^https?:\/\//i.test(source)) {
+        const response = await axios.get<ArrayBuffer>(source, {
+            timeout: env.HTTP_TIMEOUT_MS,
+            responseType: "arraybuffer",
+        });
+        data = Buffer.from(response.data);
+    } else {
+        data = await fs.readFile(source.startsWith("file://") ? fileURLToPath(source) : source);
+    }
+
+    const gzipped = data[0] === 0x1f && data[1] === 0x8b;
+    return (gzipped ? gunzipSync(data) : data).toString("utf8");
+}
+
+/**
+ * Разбор XML-фида компаний
+ */
+export function parseCompanies(xml: string): Company[] {
     const parser = new XMLParser({
         ignoreAttributes: false,
         attributeNamePrefix: "",
         trimValues: true,
     });
-    const root = parser.parse(data);
+    const root = parser.parse(xml);
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const nodes = ([] as any[]).concat(root?.companies?.company || root?.company || []);
     return nodes.map((n) => ({
         companyId: String(n["company-id"] ?? n.companyId ?? n.id),
-        name: extractText(n.name),
-        address: extractText(n.address),
+        ...(Number(n["actualization-date"]) > 0 && { actualizationDate: Number(n["actualization-date"]) }),
+        name: extractRu(n.name),
+        names: extractByLang(n.name),
+        shortnames: extractByLang(n.shortname),
+        address: extractRu(n.address),
         lat: Number(n.coordinates?.lat),
         lon: Number(n.coordinates?.lon),
         workingTime: extractText(n["working-time"]),
+        phones: extractPhones(n.phone),
+        emails: extractList(n.email),
+        url: extractList(n.url)[0],
+        addUrls: extractList(n["add-url"]),
+        rubricIds: extractList(n["rubric-id"]),
     }));
 }
+
+/**
+ * Загрузка праздничного календаря (отсутствующий файл — пустой календарь)
+ */
+export async function loadHolidayCalendar(path: string): Promise<HolidayCalendar> {
+    try {
+        return JSON.parse(await fs.readFile(path, "utf8"));
+    } catch (error: any) {
+        if (error?.code !== "ENOENT") {
+            console.warn(`⚠️  Не удалось прочитать праздничный календарь ${path}: ${error?.message || error}`);
+        }
+        return {};
+    }
+}
+
+/**
+ * Проставляет компаниям особый режим из календаря
+ */
+export function applyHolidayCalendar(companies: Company[], calendar: HolidayCalendar): Company[] {
+    return companies.map((company) => {
+        const specialHours = { ...calendar.default, ...calendar.companies?.[company.companyId] };
+        return Object.keys(specialHours).length ? { ...company, specialHours } : company;
+    });
+}
@@ -0,0 +1,103 @@
+/**
+ * Разбор страниц кабинета на записанных снимках (fixtures/yandex) через локальный сервер.
+ * Нужен установленный Chrome, поэтому тесты запускаются отдельно: npm run test:replay
+ */
+
+import path from "path";
+import { startReplayServer, type ReplayServer } from "./replay-server.js";
+import { fetchBranches, checkRecentChanges, fetchBranchChangeHistory, fetchSimpleBranchChanges, closeBrowser } from "./yandex.js";
+
+const describeReplay = process.env.REPLAY_TESTS === "true" ? describe : describe.skip;
+
+describeReplay("yandex scraping on recorded pages", () => {
+    let server: ReplayServer;
+
+    beforeAll(async () => {
+        server = await startReplayServer(path.resolve("fixtures/yandex"));
+    });
+
+    afterAll(async () => {
+        await closeBrowser();
+        await server.close();
+    });
+
+    it("fetchBranches should page through the list and prefer API responses", async () => {
+        const branches = await fetchBranches({ url: `${server.url}/branches` });
+
+        expect(branches.map((b) => b.id)).toEqual(["1001", "1002", "1003"]);
+        expect(branches[0]).toMatchObject({
+            name: "РосАл",
+            address: "Санкт-Петербург, 7-я Красноармейская улица, 23",
+            hours: "ежедневно 9:00–22:00",
+            status: "Опубликовано",
+            changesUrl: `${server.url}/sprav/1001/p/edit/changes/`,
+        });
+        // Вторая страница — из ответа API: в разметке нет режима работы и контактов.
+        // Разбор самого ответа проверяется в yandex.test.ts
+        expect(branches[2]).toMatchObject({ hours: "ежедневно 10:00–22:00", phones: ["+7 (812) 740-11-55"] });
+    }, 120000);
+
+    it("fetchBranches should reload the list after the captcha cooldown", async () => {
+        // Без окна браузера капча пережидается (CAPTCHA_COOLDOWN_MS=0 в test:replay), затем список открывается заново
+        const branches = await fetchBranches({ url: `${server.url}/branches?captcha=once` });
+        expect(branches.map((b) => b.id)).toEqual(["1001", "1002", "1003"]);
+    }, 120000);
+
+    it("fetchBranches should stop on captcha and login pages", async () => {
+        await expect(fetchBranches({ url: `${server.url}/captcha` })).rejects.toThrow("SmartCaptcha");
+        await expect(fetchBranches({ url: `${server.url}/login` })).rejects.toThrow("авторизация");
+    }, 120000);
+
+    it("checkRecentChanges should count changes of the last 24 hours", async () => {
+        const result = await checkRecentChanges(`${server.url}/sprav/1001/p/edit/changes/`, "1001");
+
+        expect(result).toMatchObject({ hasRecentChanges: true, recentChangesCount: 1, recentChangeTypes: ["Изменение режима работы"], checkStatus: "ok" });
+        expect(result.recentChangeDetails).toEqual([
+            expect.objectContaining({ title: "Изменение режима работы", oldValue: "Пн-Вс 9:00–22:00", newValue: "Пн-Вс 10:00–22:00" }),
+        ]);
+    }, 60000);
+
+    it("checkRecentChanges should report captcha and login pages instead of no changes", async () => {
+        expect(await checkRecentChanges(`${server.url}/captcha`, "1001")).toMatchObject({ hasRecentChanges: false, checkStatus: "captcha" });
+        expect(await checkRecentChanges(`${server.url}/login`, "1001")).toMatchObject({ hasRecentChanges: false, checkStatus: "login-required" });
+    }, 60000);
+
+    it("fetchBranchChangeHistory should read all changes with authors and map diffs", async () => {
+        const history = await fetchBranchChangeHistory(`${server.url}/sprav/1001/p/edit/changes/`, "1001");
+
+        expect(history.totalChanges).toBe(3);
+        expect(history.changes[0]).toMatchObject({ title: "Изменение режима работы", author: "ya.robot" });
+        expect(history.changes[1]).toEqual({
+            title: "Изменение координат",
+            oldValue: "[Прежнее положение на карте]",
+            newValue: "[Изменение на карте]",
+            timestamp: "01-09-2025 · 10:15",
+            author: "rosal.admin",
+        });
+        expect(history.changes[2]).toMatchObject({ title: "Удаление вида деятельности", oldValue: "Бар", newValue: undefined });
+    }, 60000);
+
+    it("fetchBranchChangeHistory should load more history up to the date horizon", async () => {
+        const url = `${server.url}/sprav/1002/p/edit/changes/`;
+
+        const history = await fetchBranchChangeHistory(url, "1002");
+        expect(history.changes.map((c) => c.title)).toEqual(["Изменение телефона", "Изменение режима работы", "Изменение адреса"]);
+
+        // Первая заявка на странице уже старше границы — «Показать ещё» не нажимается
+        const recent = await fetchBranchChangeHistory(url, "1002", { since: new Date(Date.now() - 12 * 60 * 60 * 1000) });
+        expect(recent.totalChanges).toBe(1);
+
+        // Граница старше всей истории: кнопка исчезает, история прочитана целиком и считается полной
+        const all = await fetchBranchChangeHistory(url, "1002", { since: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000) });
+        expect(all).toMatchObject({ totalChanges: 3, checkStatus: "ok" });
+    }, 60000);
+
+    it("fetchSimpleBranchChanges should return titles and dates, a captcha status on captcha", async () => {
+        const { changes, checkStatus } = await fetchSimpleBranchChanges(`${server.url}/sprav/1001/p/edit/changes/`);
+
+        expect(checkStatus).toBe("ok");
+        expect(changes).toHaveLength(3);
+        expect(changes[2]).toEqual({ title: "Удаление вида деятельности", date: "01-09-2025 · 10:15" });
+        expect(await fetchSimpleBranchChanges(`${server.url}/captcha`)).toMatchObject({ changes: [], checkStatus: "captcha" });
+    }, 60000);
+});
@@ -1,4 +1,6 @@
-import { parseChangeDiffValuesFromHtml } from "./yandex.js";
+import { promises as fs } from "fs";
+import path from "path";
+import { parseChangeDiffValuesFromHtml, branchDetailsFromRaw, branchesFromResponse } from "./yandex.js";
 
 describe("parseChangeDiffValuesFromHtml", () => {
     it("parses old/new values from change diff html fragment", () => {
@@ -14,4 +16,120 @@ describe("parseChangeDiffValuesFromHtml", () => {
             newValue: "Пн-Вс 8-21,55",
         });
     });
+
+    it("parses every change of a recorded changes page", async () => {
+        const html = await fs.readFile(path.resolve("fixtures/yandex/sprav_1001_p_edit_changes.html"), "utf8");
+        const changes = html.split('<div class="CompanyChanges-Change">').slice(1);
+
+        expect(changes.map(parseChangeDiffValuesFromHtml)).toEqual([
+            { oldValue: "Пн-Вс 9:00–22:00", newValue: "Пн-Вс 10:00–22:00" },
+            { oldValue: undefined, newValue: undefined }, // изменение на карте — без текстовых значений
+            { oldValue: "Бар", newValue: undefined },
+        ]);
+    });
+});
+
+describe("branchDetailsFromRaw", () => {
+    it("extracts contacts from different raw shapes", () => {
+        expect(
+            branchDetailsFromRaw({
+                phones: [{ formatted: "+7 (812) 740-11-55", type: "phone" }],
+                emails: ["admin@rosal24.ru"],
+                urls: [{ value: "https://rosal24.ru/", type: "main" }, "https://vk.com/rosal24_spb"],
+            })
+        ).toEqual({
+            phones: ["+7 (812) 740-11-55"],
+            emails: ["admin@rosal24.ru"],
+            urls: ["https://rosal24.ru/", "https://vk.com/rosal24_spb"],
+        });
+        expect(branchDetailsFromRaw({ phone: "+78127401155" })).toEqual({ phones: ["+78127401155"] });
+    });
+
+    it("extracts pin coordinates", () => {
+        expect(branchDetailsFromRaw({ coordinates: { lat: 59.93863, lon: 30.31413 } })).toEqual({ lat: 59.93863, lon: 30.31413 });
+        expect(branchDetailsFromRaw({ address: { pos: "30.31413 59.93863" } })).toEqual({ lat: 59.93863, lon: 30.31413 });
+        expect(branchDetailsFromRaw({ coordinates: [30.31413, 59.93863] })).toEqual({ lat: 59.93863, lon: 30.31413 });
+    });
+
+    it("extracts rubrics as ids, names or objects", () => {
+        expect(branchDetailsFromRaw({ rubrics: [{ id: 184107899, name: "Магазин" }, "184108031", "Бар"] })).toEqual({
+            rubrics: [{ id: "184107899", name: "Магазин" }, { id: "184108031" }, { name: "Бар" }],
+        });
+    });
+
+    it("returns no fields when raw data is missing", () => {
+        expect(branchDetailsFromRaw(undefined)).toEqual({});
+        expect(branchDetailsFromRaw({ name: "РосАл" })).toEqual({});
+    });
+});
+
+describe("branchesFromResponse", () => {
+    it("extracts branches from a nested API response", () => {
+        const response = {
+            data: {
+                chainBranches: {
+                    items: [
+                        {
+                            id: 1234567890,
+                            name: "РосАл",
+                            address: { text: "Санкт-Петербург, 7-я Красноармейская улица, 23" },
+                            workingTime: { text: "ежедневно 9:00–22:00" },
+                            status: "published",
+                            rubrics: [{ id: 184107899, name: "Магазин" }],
+                        },
+                    ],
+                    pager: { total: 181 },
+                },
+            },
+        };
+        expect(branchesFromResponse(response)).toEqual([
+            {
+                id: "1234567890",
+                name: "РосАл",
+                address: "Санкт-Петербург, 7-я Красноармейская улица, 23",
+                status: "published",
+                hours: "ежедневно 9:00–22:00",
+                url: "/sprav/1234567890/p/edit/",
+                raw: response.data.chainBranches.items[0],
+            },
+        ]);
+    });
+
+    it("keeps the card link when present", () => {
+        const [branch] = branchesFromResponse({
+            branches: [{ branchId: "42", title: "РосАл", address: "Лесной проспект, 61", link: "/sprav/42/p/edit/main/" }],
+        })!;
+        expect(branch).toMatchObject({ id: "42", name: "РосАл", url: "/sprav/42/p/edit/main/" });
+    });
+
+    it("parses the recorded API response of the branch list", async () => {
+        // Тот же ответ отдаёт сервер снимков в npm run test:replay
+        const json = JSON.parse(await fs.readFile(path.resolve("fixtures/yandex/branches-2.json"), "utf8"));
+        const item = json.data.chainBranches.items[0];
+
+        expect(branchesFromResponse(json)).toEqual([
+            {
+                id: "1003",
+                name: "РосАл",
+                address: "Санкт-Петербург, Лесной проспект, 61, корп. 3",
+                hours: "ежедневно 10:00–22:00",
+                status: "Опубликовано",
+                url: "/sprav/1003/p/edit/",
+                raw: item,
+            },
+        ]);
+        expect(branchDetailsFromRaw(item)).toEqual({
+            phones: ["+7 (812) 740-11-55"],
+            urls: ["https://rosal24.ru/"],
+            lat: 59.98641,
+            lon: 30.34251,
+            rubrics: [{ id: "184107899", name: "Магазин алкогольных напитков" }],
+        });
+    });
+
+    it("ignores responses without a branch list", () => {
+        expect(branchesFromResponse({ rubrics: [{ id: 184107899, name: "Магазин" }] })).toBeUndefined();
+        expect(branchesFromResponse({ items: [] })).toBeUndefined();
+        expect(branchesFromResponse("ok")).toBeUndefined();
+    });
 });
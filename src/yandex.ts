@@ -1,11 +1,20 @@
 import { chromium, Browser, BrowserContext, Page } from "playwright";
 import { promises as fs } from "fs";
 import { env, AUTH_CHECK_URL } from "./config.js";
+import type { Rubric } from "./rubrics.js";
+import { summarizeCheckStatuses, formatCheckSummaryLines, type CheckStatus } from "./branch-utils.js";
+import { withRetry, createErrorBudget } from "./retry.js";
+import { createCaptchaGate, type CaptchaOutcome } from "./captcha.js";
+import { createCrawlScheduler, formatCrawlStats } from "./crawl-scheduler.js";
+import { sendMessage, sendPhoto } from "./telegram.js";
+import { selectNewChanges, groupChangeRequests, parseChangeTime, cursorHorizon, type ChangeCursor } from "./change-cursors.js";
 
 let browser: Browser | null = null;
 let context: BrowserContext | null = null;
 let authValidated = false;
 let authEnsuringPromise: Promise<boolean> | null = null;
+let navigationBudget = createErrorBudget(env.NAV_ERROR_BUDGET); // обновляется при каждом запуске браузера
+let captchaGate = newCaptchaGate(); // пауза обхода при капче, тоже на запуск браузера
 
 const AUTH_STATE_PATH = "./data/auth-state.json";
 const AUTH_LOGIN_URL = "https://passport.yandex.ru/auth";
@@ -25,9 +34,17 @@ export type YandexBranch = {
     address?: string;
     status?: string;
     hours?: string; // режим работы (текст)
+    phones?: string[]; // телефоны из карточки (undefined — данных нет)
+    emails?: string[];
+    urls?: string[]; // сайт и дополнительные ссылки
+    lat?: number; // координаты метки на карте
+    lon?: number;
+    rubrics?: Rubric[]; // виды деятельности
     url?: string;
     changesUrl?: string;
     hasRecentChanges?: boolean; // есть ли изменения за последние 24 часа
+    checkStatus?: CheckStatus; // результат последней проверки изменений; кроме "ok" — «нет изменений» не означает тихий день
+    checkError?: string; // причина неудачной проверки
     recentChangesCount?: number; // количество изменений за последние 24 часа
     lastChangeTime?: string; // время последнего изменения
     recentChangeTypes?: string[]; // названия типов изменений за последние 24 часа
@@ -41,6 +58,7 @@ export type RecentChangeDetail = {
     oldValue?: string;
     newValue?: string;
     timestamp: string;
+    author?: string;
 };
 
 /**
@@ -60,6 +78,157 @@ export function parseChangeDiffValuesFromHtml(html: string): Pick<RecentChangeDe
     };
 }
 
+type BranchDetails = Pick<YandexBranch, "phones" | "emails" | "urls" | "lat" | "lon" | "rubrics">;
+
+/**
+ * Контакты, координаты и прочие детали карточки из сырых данных кабинета (item из chainBranches)
+ * Поддерживает разные варианты полей: строки, объекты { formatted | number | value }
+ */
+export function branchDetailsFromRaw(raw: Record<string, unknown> | undefined): BranchDetails {
+    if (!raw) return {};
+
+    const values = (value: unknown): string[] =>
+        ([] as unknown[])
+            .concat(value ?? [])
+            .map((v) => {
+                if (typeof v === "string" || typeof v === "number") return String(v);
+                if (v && typeof v === "object") {
+                    const o = v as Record<string, unknown>;
+                    return String(o.formatted ?? o.number ?? o.value ?? o.url ?? o.email ?? "");
+                }
+                return "";
+            })
+            .map((v) => v.trim())
+            .filter(Boolean);
+    const pick = (...keys: string[]) => {
+        const key = keys.find((k) => raw[k] !== undefined && raw[k] !== null);
+        return key ? values(raw[key]) : undefined;
+    };
+
+    const details: BranchDetails = {};
+    const phones = pick("phones", "phone");
+    const emails = pick("emails", "email");
+    const urls = pick("urls", "websites", "site", "links");
+    if (phones) details.phones = phones;
+    if (emails) details.emails = emails;
+    if (urls) details.urls = urls;
+    const coords = coordinatesFromRaw(raw);
+    if (coords) Object.assign(details, coords);
+    const rubrics = rubricsFromRaw(raw);
+    if (rubrics) details.rubrics = rubrics;
+    return details;
+}
+
+/**
+ * Рубрики из сырых данных: id, названия или объекты { id, name }
+ */
+function rubricsFromRaw(raw: Record<string, unknown>): Rubric[] | undefined {
+    const key = ["rubrics", "categories", "activities", "rubric"].find((k) => raw[k] !== undefined && raw[k] !== null);
+    if (!key) return undefined;
+
+    return ([] as unknown[])
+        .concat(raw[key])
+        .map((v): Rubric => {
+            if (typeof v === "number" || (typeof v === "string" && /^\d+$/.test(v.trim()))) return { id: String(v).trim() };
+            if (typeof v === "string") return { name: v.trim() };
+            if (v && typeof v === "object") {
+                const o = v as Record<string, unknown>;
+                const id = o.id ?? o.rubricId ?? o.permalink;
+                const name = o.name ?? o.title ?? o.text;
+                return {
+                    ...(id !== undefined && id !== null && { id: String(id) }),
+                    ...(typeof name === "string" && name.trim() && { name: name.trim() }),
+                };
+            }
+            return {};
+        })
+        .filter((r) => r.id || r.name);
+}
+
+/**
+ * Координаты метки из сырых данных: { lat, lon } / { latitude, longitude },
+ * массив [lon, lat] или строка "lon lat" (порядок, принятый в геоданных Яндекса)
+ */
+function coordinatesFromRaw(raw: Record<string, unknown>): { lat: number; lon: number } | undefined {
+    const address = raw.address && typeof raw.address === "object" ? (raw.address as Record<string, unknown>) : {};
+    const candidates = [raw.coordinates, raw.coords, raw.point, raw.pos, address.coordinates, address.point, address.pos, raw];
+
+    for (const c of candidates) {
+        let lat: unknown;
+        let lon: unknown;
+        if (Array.isArray(c)) [lon, lat] = c;
+        else if (typeof c === "string") [lon, lat] = c.trim().split(/[\s,]+/);
+        else if (c && typeof c === "object") {
+            const o = c as Record<string, unknown>;
+            lat = o.lat ?? o.latitude;
+            lon = o.lon ?? o.lng ?? o.longitude;
+        }
+        if (lat === undefined || lon === undefined || lat === null || lon === null || lat === "" || lon === "") continue;
+        const point = { lat: Number(lat), lon: Number(lon) };
+        if (Number.isFinite(point.lat) && Number.isFinite(point.lon)) return point;
+    }
+    return undefined;
+}
+
+type BranchListItem = Pick<YandexBranch, "id" | "name" | "address" | "status" | "hours" | "url" | "raw">;
+
+// Ключи, под которыми кабинет отдаёт список филиалов
+const BRANCH_LIST_KEYS = ["chainBranches", "branches", "companies", "items"];
+
+/**
+ * Филиалы из JSON-ответа кабинета (XHR/fetch при загрузке и пагинации списка).
+ * undefined — в ответе нет списка филиалов
+ */
+export function branchesFromResponse(json: unknown): BranchListItem[] | undefined {
+    const items = findBranchItems(json, 0);
+    return items?.map((item) => {
+        const str = (...values: unknown[]) => values.find((v): v is string => typeof v === "string" && v.trim() !== "")?.trim();
+        const text = (v: unknown) => (v && typeof v === "object" ? (v as Record<string, unknown>).text : v);
+        const id = item.id ?? item.branchId ?? item.businessId ?? item.permalink;
+
+        return {
+            id: id !== undefined && id !== null ? String(id) : undefined,
+            name: str(text(item.name), item.title),
+            address: str(text(item.address), item.fullAddress),
+            status: str(text(item.status), item.workingStatus, item.publishingStatus),
+            hours: str(text(item.workingTime), text(item.hours), text(item.workingHours)),
+            // Ссылка на карточку; в ответах API её может не быть — строим по id
+            url: str(item.link, item.url) ?? (id !== undefined && id !== null ? `/sprav/${id}/p/edit/` : undefined),
+            raw: item,
+        };
+    });
+}
+
+/**
+ * Поиск массива филиалов в ответе: chainBranches.items, branches, items, … на любой глубине
+ */
+function findBranchItems(value: unknown, depth: number): Record<string, unknown>[] | undefined {
+    if (!value || typeof value !== "object" || depth > 6) return undefined;
+    if (Array.isArray(value)) {
+        return value.length > 0 && value.every(isBranchItem) ? (value as Record<string, unknown>[]) : undefined;
+    }
+
+    const o = value as Record<string, unknown>;
+    for (const key of BRANCH_LIST_KEYS) {
+        const found = findBranchItems(o[key], depth + 1);
+        if (found) return found;
+    }
+    for (const [key, nested] of Object.entries(o)) {
+        if (BRANCH_LIST_KEYS.includes(key)) continue;
+        const found = findBranchItems(nested, depth + 1);
+        if (found) return found;
+    }
+    return undefined;
+}
+
+function isBranchItem(value: unknown): boolean {
+    if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+    const o = value as Record<string, unknown>;
+    const hasId = ["id", "branchId", "businessId", "permalink"].some((k) => o[k] !== undefined && o[k] !== null);
+    // Адрес отличает филиал от рубрик и прочих списков { id, name }
+    return hasId && o.address !== undefined && o.address !== null;
+}
+
 export type BranchChange = {
     title: string; // название изменения, например "Изменение адреса"
     oldValue?: string; // старое значение (если есть)
@@ -73,6 +242,14 @@ export type BranchChangeHistory = {
     changesUrl: string;
     totalChanges: number; // общее количество изменений
     changes: BranchChange[]; // список изменений
+    checkStatus?: CheckStatus; // кроме "ok" — история не прочитана, пустой список ничего не значит
+    checkError?: string;
+};
+
+export type SimpleChangesResult = {
+    changes: SimpleChange[];
+    checkStatus: CheckStatus;
+    checkError?: string;
 };
 
 type ExtractionStatus = {
@@ -88,6 +265,8 @@ export async function initBrowser() {
     if (browser) return browser;
 
     console.log("🌐 Запуск браузера...");
+    navigationBudget = createErrorBudget(env.NAV_ERROR_BUDGET);
+    captchaGate = newCaptchaGate();
 
     browser = await chromium.launch({
         headless: env.BROWSER_HEADLESS !== "false",
@@ -421,162 +600,319 @@ process.on("SIGTERM", async () => {
     process.exit(0);
 });
 
+type BlockedStatus = Exclude<CheckStatus, "ok" | "failed">;
+
+const rateLimitListeners = new Set<(reason: string) => void>();
+
+/**
+ * Подписка на признаки ограничения запросов кабинетом (капча, HTTP 429) — по ним планировщик замедляет обход.
+ * Возвращает функцию отписки
+ */
+export function onRateLimited(listener: (reason: string) => void): () => void {
+    rateLimitListeners.add(listener);
+    return () => rateLimitListeners.delete(listener);
+}
+
+function reportRateLimited(reason: string) {
+    rateLimitListeners.forEach((listener) => listener(reason));
+}
+
+function newCaptchaGate() {
+    return createCaptchaGate({
+        headful: env.BROWSER_HEADLESS === "false",
+        solveTimeoutMs: env.CAPTCHA_SOLVE_TIMEOUT_MS,
+        cooldownMs: env.CAPTCHA_COOLDOWN_MS,
+        maxPauses: env.CAPTCHA_MAX_PAUSES,
+        notify: async (text, screenshot) => {
+            await (screenshot ? sendPhoto(screenshot, text) : sendMessage(text));
+        },
+    });
+}
+
+/**
+ * Пауза обхода из-за капчи на странице page: оповещение со скриншотом, ожидание оператора или охлаждение
+ */
+async function pauseForCaptcha(page: Page, url: string): Promise<CaptchaOutcome> {
+    reportRateLimited("SmartCaptcha");
+    return captchaGate.pause({
+        url,
+        screenshot: () => page.screenshot(),
+        isSolved: async () => (await blockedStatus(page)) !== "captcha",
+    });
+}
+
+/**
+ * Капча или требование входа вместо страницы кабинета; undefined — страница открылась
+ */
+async function blockedStatus(page: Page): Promise<BlockedStatus | undefined> {
+    return page.evaluate(() => {
+        const bodyText = document.body?.innerText ?? "";
+        if (document.querySelector("smart-captcha") || bodyText.includes("SmartCaptcha") || bodyText.includes("Я не робот")) {
+            return "captcha" as const;
+        }
+        const loginLinks = Array.from(document.querySelectorAll('a[href*="passport.yandex.ru"]'));
+        return loginLinks.some((el) => /войти|логин/i.test(el.textContent || "")) ? ("login-required" as const) : undefined;
+    });
+}
+
+function blockedMessage(status: "captcha" | "login-required", url: string): string {
+    return status === "captcha" ? `SmartCaptcha на странице изменений: ${url}` : `Требуется авторизация для просмотра изменений: ${url}`;
+}
+
+// Заявки, капча или ссылка на вход — признаки того, что страница изменений отрисовалась
+const CHANGES_READY_SELECTOR = ".RequestChanges.CompanyChangesPage-Request, smart-captcha, a[href*='passport.yandex.ru']";
+
+/**
+ * Открыть страницу истории изменений. При капче обход приостанавливается, затем страница открывается заново;
+ * возвращает captcha / login-required, если история так и не открылась
+ */
+async function openChangesPage(page: Page, url: string): Promise<BlockedStatus | undefined> {
+    await navigate(page, url, CHANGES_READY_SELECTOR);
+    const blocked = await blockedStatus(page);
+    if (blocked !== "captcha" || (await pauseForCaptcha(page, url)) === "skipped") return blocked;
+
+    await navigate(page, url, CHANGES_READY_SELECTOR);
+    return blockedStatus(page);
+}
+
+/**
+ * Переход на страницу кабинета с повторами: экспоненциальная задержка со случайным разбросом.
+ * Ответы 429 и 5xx тоже повторяются. Неудачные попытки расходуют общий на запуск лимит NAV_ERROR_BUDGET —
+ * когда он исчерпан, переходы сразу завершаются ошибкой, а не ждут таймаутов
+ */
+async function navigate(page: Page, url: string, readySelector?: string): Promise<void> {
+    // Пока обход стоит на паузе из-за капчи, новые страницы не открываются
+    await captchaGate.wait();
+    await withRetry(
+        async () => {
+            const response = await page.goto(url, { waitUntil: "domcontentloaded", timeout: env.NAV_TIMEOUT_MS });
+            const status = response?.status() ?? 200;
+            if (status === 429) reportRateLimited("HTTP 429");
+            if (status === 429 || status >= 500) throw new Error(`HTTP ${status}`);
+        },
+        {
+            retries: env.NAV_RETRIES,
+            baseDelayMs: env.NAV_BACKOFF_MS,
+            maxDelayMs: 60000,
+            budget: navigationBudget,
+            onRetry: (error: any, attempt, delayMs) =>
+                console.log(`   🔁 ${error?.message || error} — повтор ${attempt}/${env.NAV_RETRIES} через ${Math.round(delayMs / 1000)} с: ${url}`),
+        }
+    );
+    await page.waitForLoadState("networkidle", { timeout: 30000 }).catch(() => {});
+    if (readySelector) await page.waitForSelector(readySelector, { timeout: 5000 }).catch(() => {});
+}
+
+// Предел подгрузок истории изменений на одной странице (защита от бесконечной ленты)
+const CHANGES_MAX_LOAD_ROUNDS = 50;
+
+/**
+ * Граница истории изменений по умолчанию: CHANGES_HISTORY_DAYS дней назад
+ */
+function defaultChangesHorizon(): Date {
+    return new Date(Date.now() - env.CHANGES_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Подгрузка истории изменений до даты horizon: кнопка «Показать ещё» или прокрутка к последней заявке.
+ * Возвращает true, если самая старая заявка на странице старше horizon или история закончилась;
+ * false — кнопка «Показать ещё» не подгрузила заявки или достигнут предел подгрузок
+ */
+async function loadChangesUntil(page: Page, horizon: Date): Promise<boolean> {
+    for (let round = 0; round < CHANGES_MAX_LOAD_ROUNDS; round++) {
+        const state = await page.evaluate(() => {
+            const blocks = Array.from(document.querySelectorAll(".RequestChanges.CompanyChangesPage-Request"));
+            const last = blocks[blocks.length - 1];
+            return { count: blocks.length, oldest: last?.querySelector(".RequestChanges-RequestTime")?.textContent?.trim() };
+        });
+        const oldest = state.oldest ? parseChangeTime(state.oldest) : null;
+        if (state.count === 0 || (oldest && oldest < horizon)) return true;
+
+        const clicked = await page.evaluate(() => {
+            const more = Array.from(document.querySelectorAll("button, a, [role='button']")).find((el) =>
+                /показать (ещё|еще)|загрузить (ещё|еще)/i.test(el.textContent || "")
+            );
+            if (more) {
+                (more as HTMLElement).click();
+                return true;
+            }
+            const blocks = document.querySelectorAll(".RequestChanges.CompanyChangesPage-Request");
+            blocks[blocks.length - 1]?.scrollIntoView();
+            window.scrollTo(0, document.body.scrollHeight);
+            return false;
+        });
+
+        const grew = await page
+            .waitForFunction((prev) => document.querySelectorAll(".RequestChanges.CompanyChangesPage-Request").length > prev, state.count, { timeout: 10000 })
+            .then(() => true)
+            .catch(() => false);
+        if (!grew) {
+            // Кнопки нет (или она исчезла после нажатия) и прокрутка ничего не подгрузила — история закончилась
+            const moreLeft =
+                clicked &&
+                (await page.evaluate(() =>
+                    Array.from(document.querySelectorAll("button, a, [role='button']")).some((el) =>
+                        /показать (ещё|еще)|загрузить (ещё|еще)/i.test(el.textContent || "")
+                    )
+                ));
+            if (!moreLeft) return true;
+            console.log("   ⚠️  История подгружена не до конца: «Показать ещё» не подгрузила заявки");
+            return false;
+        }
+        await page.waitForLoadState("networkidle", { timeout: 15000 }).catch(() => {});
+    }
+    console.log(`   ⚠️  История подгружена не до конца: достигнут предел ${CHANGES_MAX_LOAD_ROUNDS} подгрузок`);
+    return false;
+}
+
+const INCOMPLETE_HISTORY_ERROR = "История изменений подгружена не полностью, курсор не сдвигается";
+
 /**
- * Проверить есть ли изменения за последние 24 часа
+ * Проверить, есть ли новые изменения: после курсора (последней учтённой заявки),
+ * без курсора — за последние 24 часа. Возвращает новый курсор
  */
 export async function checkRecentChanges(
     changesUrl: string,
-    branchId: string
+    branchId: string,
+    cursor?: ChangeCursor
 ): Promise<{
     hasRecentChanges: boolean;
     recentChangesCount: number;
     lastChangeTime?: string;
-    recentChangeTypes?: string[]; // названия типов изменений за 24ч
+    recentChangeTypes?: string[]; // названия типов новых изменений
     recentChangeDetails: RecentChangeDetail[];
+    cursor?: ChangeCursor; // не задан, если страницу не удалось прочитать
+    checkStatus: CheckStatus; // кроме "ok" — страницу не удалось прочитать, результат не означает «изменений нет»
+    checkError?: string;
 }> {
     const page = await newPage();
 
     try {
-        await page.goto(changesUrl, { waitUntil: "domcontentloaded", timeout: 60000 });
-        await page.waitForLoadState("networkidle", { timeout: 30000 }).catch(() => {});
-        await page.waitForTimeout(2000);
-
-        const result = await page.evaluate(() => {
-            const now = new Date();
-            const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-
-            // Парсинг времени в формате "17-09-2025 · 02:05"
-            // @ts-ignore
-            const parseTimestamp = (timeStr) => {
-                if (!timeStr) return null;
-                const match = timeStr.match(/(\d{2})-(\d{2})-(\d{4})\s*·\s*(\d{2}):(\d{2})/);
-                if (!match) return null;
-
-                const [, day, month, year, hour, minute] = match;
-                return new Date(parseInt(year), parseInt(month) - 1, parseInt(day), parseInt(hour), parseInt(minute));
+        const blocked = await openChangesPage(page, changesUrl);
+        if (blocked) {
+            console.error(`❌ ${blockedMessage(blocked, changesUrl)}`);
+            return {
+                hasRecentChanges: false,
+                recentChangesCount: 0,
+                recentChangeDetails: [],
+                checkStatus: blocked,
+                checkError: blockedMessage(blocked, changesUrl),
             };
+        }
 
-            const requestBlocks = Array.from(document.querySelectorAll(".RequestChanges.CompanyChangesPage-Request"));
+        // Подгружаем историю до курсора (без курсора — за 24 часа).
+        // Если не удалось, курсор не сдвигается: иначе заявки между подгруженными и курсором потеряются
+        if (!(await loadChangesUntil(page, cursorHorizon(cursor)))) {
+            return {
+                hasRecentChanges: false,
+                recentChangesCount: 0,
+                recentChangeDetails: [],
+                checkStatus: "failed",
+                checkError: INCOMPLETE_HISTORY_ERROR,
+            };
+        }
 
-            let recentCount = 0;
-            let lastChangeTime: string | undefined;
-            const recentChangeTypes: string[] = [];
-            const recentChangeDetails: Array<{
+        // Все заявки на странице; новые отбираются по курсору
+        const details = await page.evaluate(() => {
+            const requestBlocks = Array.from(document.querySelectorAll(".RequestChanges.CompanyChangesPage-Request"));
+            const changeDetails: Array<{
                 title: string;
                 oldValue?: string;
                 newValue?: string;
                 timestamp: string;
+                author?: string;
             }> = [];
 
             for (const requestBlock of requestBlocks) {
                 const timeEl = requestBlock.querySelector(".RequestChanges-RequestTime");
+                const authorEl = requestBlock.querySelector(".RequestChanges-RequestLogin");
                 const timestamp = timeEl?.textContent?.trim() || "";
+                const author = authorEl?.textContent?.trim() || undefined;
+                if (!timestamp) continue;
 
-                const changeDate = parseTimestamp(timestamp);
-                if (!changeDate) continue;
-
-                if (!lastChangeTime) {
-                    lastChangeTime = timestamp;
-                }
-
-                if (changeDate >= oneDayAgo) {
-                    recentCount++;
-
-                    // Собираем названия изменений из этого блока
-                    const changeElements = Array.from(requestBlock.querySelectorAll(".CompanyChanges-Change"));
-                    for (const changeEl of changeElements) {
-                        const titleEl = changeEl.querySelector(".CompanyChanges-ChangeTitle");
-                        const title = titleEl?.textContent?.trim() || "";
+                // Собираем названия изменений из этого блока
+                const changeElements = Array.from(requestBlock.querySelectorAll(".CompanyChanges-Change"));
+                for (const changeEl of changeElements) {
+                    const titleEl = changeEl.querySelector(".CompanyChanges-ChangeTitle");
+                    const title = titleEl?.textContent?.trim() || "";
 
-                        let oldValue: string | undefined;
-                        let newValue: string | undefined;
+                    let oldValue: string | undefined;
+                    let newValue: string | undefined;
 
-                        const diffContainer = changeEl.querySelector(".CompanyChanges-ChangeDiff");
-                        if (diffContainer) {
-                            const addEl = diffContainer.querySelector(".CompanyChanges-ChangeDiffItem_action_add");
-                            const removeEl = diffContainer.querySelector(".CompanyChanges-ChangeDiffItem_action_remove");
+                    const diffContainer = changeEl.querySelector(".CompanyChanges-ChangeDiff");
+                    if (diffContainer) {
+                        const addEl = diffContainer.querySelector(".CompanyChanges-ChangeDiffItem_action_add");
+                        const removeEl = diffContainer.querySelector(".CompanyChanges-ChangeDiffItem_action_remove");
 
-                            if (addEl) {
-                                newValue = addEl.textContent?.trim();
-                            }
-                            if (removeEl) {
-                                oldValue = removeEl.textContent?.trim();
-                            }
+                        if (addEl) {
+                            newValue = addEl.textContent?.trim();
                         }
-
-                        if (title && !recentChangeTypes.includes(title)) {
-                            recentChangeTypes.push(title);
+                        if (removeEl) {
+                            oldValue = removeEl.textContent?.trim();
                         }
+                    }
 
-                        if (title || oldValue || newValue) {
-                            recentChangeDetails.push({
-                                title,
-                                oldValue,
-                                newValue,
-                                timestamp,
-                            });
-                        }
+                    if (title || oldValue || newValue) {
+                        changeDetails.push({ title, oldValue, newValue, timestamp, author });
                     }
                 }
             }
 
-            return {
-                hasRecentChanges: recentCount > 0,
-                recentChangesCount: recentCount,
-                lastChangeTime,
-                recentChangeTypes,
-                recentChangeDetails,
-            };
+            return changeDetails;
         });
 
-        return result;
+        const selected = selectNewChanges(details, cursor);
+        const recentChangeTypes = [...new Set(selected.changes.map((c) => c.title).filter(Boolean))];
+        const recentChangesCount = groupChangeRequests(selected.changes).length;
+
+        return {
+            hasRecentChanges: recentChangesCount > 0,
+            recentChangesCount,
+            lastChangeTime: details.find((d) => parseChangeTime(d.timestamp))?.timestamp,
+            recentChangeTypes,
+            recentChangeDetails: selected.changes,
+            cursor: selected.cursor,
+            checkStatus: "ok",
+        };
     } catch (error: any) {
         console.error(`❌ Ошибка при проверке изменений: ${error.message}`);
         return {
             hasRecentChanges: false,
             recentChangesCount: 0,
             recentChangeDetails: [],
+            checkStatus: "failed",
+            checkError: error.message,
         };
     } finally {
         await page.close();
     }
 }
 
+type ChangesHistoryOptions = {
+    since?: Date; // подгружать историю до этой даты; по умолчанию CHANGES_HISTORY_DAYS дней назад
+};
+
 /**
- * Получить упрощённую историю изменений (только название + дата)
+ * Получить упрощённую историю изменений (только название + дата) и результат проверки
  */
-export async function fetchSimpleBranchChanges(changesUrl: string): Promise<SimpleChange[]> {
+export async function fetchSimpleBranchChanges(changesUrl: string, options: ChangesHistoryOptions = {}): Promise<SimpleChangesResult> {
     const page = await newPage();
 
     try {
         console.log(`🔍 Загружаем историю изменений: ${changesUrl}`);
-        await page.goto(changesUrl, { waitUntil: "domcontentloaded", timeout: 60000 });
-        await page.waitForLoadState("networkidle", { timeout: 30000 }).catch(() => {});
-        await page.waitForTimeout(2000);
+        // Капча и вход проверяются до подгрузки истории
+        const blocked = await openChangesPage(page, changesUrl);
+        if (blocked) {
+            console.error(`❌ ${blockedMessage(blocked, changesUrl)}`);
+            return { changes: [], checkStatus: blocked, checkError: blockedMessage(blocked, changesUrl) };
+        }
 
-        const extraction = await page.evaluate(() => {
-            const result: {
-                changes: Array<{ title: string; date: string }>;
-                captcha: boolean;
-                needsLogin: boolean;
-            } = {
-                changes: [],
-                captcha: false,
-                needsLogin: false,
-            };
+        // Курсора здесь нет: неполная история только отмечается в логе
+        await loadChangesUntil(page, options.since ?? defaultChangesHorizon());
 
+        const extraction = await page.evaluate(() => {
+            const result: { changes: Array<{ title: string; date: string }> } = { changes: [] };
             const doc = document;
-            const bodyText = doc.body?.innerText ?? "";
-
-            // Проверяем капчу и авторизацию
-            result.captcha = !!doc.querySelector("smart-captcha") || bodyText.includes("SmartCaptcha") || bodyText.includes("Я не робот");
-
-            const loginLinks = Array.from(doc.querySelectorAll('a[href*="passport.yandex.ru"]'));
-            result.needsLogin = loginLinks.some((el) => /войти|логин/i.test(el.textContent || ""));
-
-            if (result.captcha || result.needsLogin) {
-                return result;
-            }
 
             // Находим все блоки изменений (RequestChanges)
             const requestBlocks = Array.from(doc.querySelectorAll(".RequestChanges.CompanyChangesPage-Request"));
@@ -602,19 +938,11 @@ export async function fetchSimpleBranchChanges(changesUrl: string): Promise<Simp
             return result;
         });
 
-        if (extraction.captcha) {
-            throw new Error(`SmartCaptcha на странице изменений: ${changesUrl}`);
-        }
-
-        if (extraction.needsLogin) {
-            throw new Error(`Требуется авторизация для просмотра изменений: ${changesUrl}`);
-        }
-
         console.log(`   ✓ Найдено изменений: ${extraction.changes.length}`);
-        return extraction.changes;
+        return { changes: extraction.changes, checkStatus: "ok" };
     } catch (error: any) {
         console.error(`❌ Ошибка при загрузке истории изменений: ${error.message}`);
-        return [];
+        return { changes: [], checkStatus: "failed", checkError: error.message };
     } finally {
         await page.close();
     }
@@ -623,16 +951,22 @@ export async function fetchSimpleBranchChanges(changesUrl: string): Promise<Simp
 /**
  * Получить историю изменений для конкретного филиала
  */
-export async function fetchBranchChangeHistory(changesUrl: string, branchId: string): Promise<BranchChangeHistory> {
+export async function fetchBranchChangeHistory(changesUrl: string, branchId: string, options: ChangesHistoryOptions = {}): Promise<BranchChangeHistory> {
     const page = await newPage();
 
     try {
         console.log(`🔍 Загружаем историю изменений: ${changesUrl}`);
-        await page.goto(changesUrl, { waitUntil: "domcontentloaded", timeout: 60000 });
-        await page.waitForLoadState("networkidle", { timeout: 30000 }).catch(() => {});
+        // Ждём отрисовки заявок (или капчи / входа)
+        const blocked = await openChangesPage(page, changesUrl);
+        if (blocked) {
+            console.error(`❌ ${blockedMessage(blocked, changesUrl)}`);
+            return { branchId, changesUrl, totalChanges: 0, changes: [], checkStatus: blocked, checkError: blockedMessage(blocked, changesUrl) };
+        }
 
-        // Даём время на загрузку контента
-        await page.waitForTimeout(2000);
+        // Длинная история подгружается частями; неполная история не сдвигает курсор
+        if (!(await loadChangesUntil(page, options.since ?? defaultChangesHorizon()))) {
+            return { branchId, changesUrl, totalChanges: 0, changes: [], checkStatus: "failed", checkError: INCOMPLETE_HISTORY_ERROR };
+        }
 
         // Парсим изменения
         const extraction = await page.evaluate(() => {
@@ -644,26 +978,11 @@ export async function fetchBranchChangeHistory(changesUrl: string, branchId: str
                     timestamp: string;
                     author?: string;
                 }>;
-                captcha: boolean;
-                needsLogin: boolean;
             } = {
                 changes: [],
-                captcha: false,
-                needsLogin: false,
             };
 
             const doc = document;
-            const bodyText = doc.body?.innerText ?? "";
-
-            // Проверяем капчу и авторизацию
-            result.captcha = !!doc.querySelector("smart-captcha") || bodyText.includes("SmartCaptcha") || bodyText.includes("Я не робот");
-
-            const loginLinks = Array.from(doc.querySelectorAll('a[href*="passport.yandex.ru"]'));
-            result.needsLogin = loginLinks.some((el) => /войти|логин/i.test(el.textContent || ""));
-
-            if (result.captcha || result.needsLogin) {
-                return result;
-            }
 
             // Находим все блоки изменений
             const requestBlocks = Array.from(doc.querySelectorAll(".RequestChanges.CompanyChangesPage-Request"));
@@ -728,14 +1047,6 @@ export async function fetchBranchChangeHistory(changesUrl: string, branchId: str
             return result;
         });
 
-        if (extraction.captcha) {
-            throw new Error(`SmartCaptcha на странице изменений: ${changesUrl}`);
-        }
-
-        if (extraction.needsLogin) {
-            throw new Error(`Требуется авторизация для просмотра изменений: ${changesUrl}`);
-        }
-
         console.log(`   ✓ Найдено изменений: ${extraction.changes.length}`);
 
         return {
@@ -743,6 +1054,7 @@ export async function fetchBranchChangeHistory(changesUrl: string, branchId: str
             changesUrl,
             totalChanges: extraction.changes.length,
             changes: extraction.changes,
+            checkStatus: "ok",
         };
     } catch (error: any) {
         console.error(`❌ Ошибка при загрузке истории изменений: ${error.message}`);
@@ -751,6 +1063,8 @@ export async function fetchBranchChangeHistory(changesUrl: string, branchId: str
             changesUrl,
             totalChanges: 0,
             changes: [],
+            checkStatus: "failed",
+            checkError: error.message,
         };
     } finally {
         await page.close();
@@ -776,6 +1090,26 @@ export async function fetchBranches(options: FetchBranchesOptions | string = {})
         };
     });
 
+    // Ответы API кабинета со списком филиалов; разбор DOM — только если ответа для страницы нет
+    const useNetwork = env.BRANCHES_SOURCE === "network";
+    const intercepted: BranchListItem[][] = [];
+    const pendingResponses = new Set<Promise<void>>();
+    if (useNetwork) {
+        page.on("response", (response) => {
+            const type = response.request().resourceType();
+            if ((type !== "xhr" && type !== "fetch") || !(response.headers()["content-type"] || "").includes("json")) return;
+            const pending = response
+                .json()
+                .then((json) => {
+                    const branches = branchesFromResponse(json);
+                    if (branches?.length) intercepted.push(branches);
+                })
+                .catch(() => {}) // тело недоступно (редирект, прерванный запрос)
+                .finally(() => pendingResponses.delete(pending));
+            pendingResponses.add(pending);
+        });
+    }
+
     const allBranches: YandexBranch[] = [];
     let currentPage = 1;
     let hasMorePages = true;
@@ -785,8 +1119,7 @@ export async function fetchBranches(options: FetchBranchesOptions | string = {})
 
     try {
         console.log(`🌐 Загружаем страницу филиалов: ${url}`);
-        await page.goto(url, { waitUntil: "domcontentloaded", timeout: 60000 });
-        await page.waitForLoadState("networkidle", { timeout: 30000 }).catch(() => {});
+        await navigate(page, url);
         try {
             pageOrigin = new URL(page.url()).origin;
         } catch {
@@ -959,6 +1292,14 @@ export async function fetchBranches(options: FetchBranchesOptions | string = {})
             });
 
             if (extraction.captcha) {
+                const outcome = await pauseForCaptcha(page, page.url());
+                // Оператор прошёл проверку в окне браузера — читаем страницу списка заново
+                if (outcome === "solved") continue;
+                // Пауза охлаждения закончилась — открываем страницу списка заново
+                if (outcome === "cooled-down") {
+                    await navigate(page, page.url());
+                    continue;
+                }
                 throw new Error("На странице появилась SmartCaptcha. Пройдите проверку вручную в открытом окне браузера.");
             }
 
@@ -966,13 +1307,22 @@ export async function fetchBranches(options: FetchBranchesOptions | string = {})
                 throw new Error("Требуется повторная авторизация в Яндекс для просмотра списка филиалов.");
             }
 
+            // Последний ответ API относится к текущей странице; полнее данных из DOM
+            await Promise.all(pendingResponses);
+            const fromNetwork = intercepted.splice(0).pop();
+            if (fromNetwork) {
+                extraction.branches = fromNetwork;
+            } else if (useNetwork) {
+                console.log("   ℹ️  Ответ API со списком филиалов не найден, разбираем страницу");
+            }
+
             if (extraction.branches.length === 0) {
                 console.warn("⚠️  Не удалось распарсить филиалы на странице", currentPage);
                 break;
             }
 
             const enhancedBranches = extraction.branches.map((branch) => {
-                const result: YandexBranch = { ...branch };
+                const result: YandexBranch = { ...branch, ...branchDetailsFromRaw(branch.raw) };
                 if (branch.url) {
                     try {
                         const absolute = new URL(branch.url, pageOrigin).href;
@@ -985,8 +1335,10 @@ export async function fetchBranches(options: FetchBranchesOptions | string = {})
                 return result;
             });
 
-            allBranches.push(...enhancedBranches);
-            console.log(`   ✓ Получено ${extraction.branches.length} филиалов (всего: ${allBranches.length})`);
+            // После капчи кабинет может вернуть к первой странице списка — уже собранные филиалы не дублируем
+            const collectedIds = new Set(allBranches.map((b) => b.id).filter(Boolean));
+            allBranches.push(...enhancedBranches.filter((b) => !b.id || !collectedIds.has(b.id)));
+            console.log(`   ✓ Получено ${extraction.branches.length} филиалов${fromNetwork ? " из ответа API" : ""} (всего: ${allBranches.length})`);
 
             // Проверяем наличие кнопки "Вперед" и кликаем по ней
             const paginationInfo = await page.evaluate(function () {
@@ -1097,25 +1449,42 @@ export async function fetchBranches(options: FetchBranchesOptions | string = {})
         if (withChanges && allBranches.length > 0) {
             console.log(`\n📜 Загружаем историю изменений для ${allBranches.length} филиалов...`);
 
-            for (let i = 0; i < allBranches.length; i++) {
-                // for (let i = 5; i !== 0; i-=5) {
-                const branch = allBranches[i];
-                if (branch.changesUrl) {
-                    console.log(`   [${i + 1}/${allBranches.length}] ${branch.name || branch.id}`);
-                    try {
-                        const changes = await fetchSimpleBranchChanges(branch.changesUrl);
-                        branch.changesHistory = changes;
-                    } catch (error) {
-                        const errMsg = error instanceof Error ? error.message : String(error);
-                        console.error(`   ❌ Ошибка: ${errMsg}`);
-                        branch.changesHistory = [];
-                    }
-                    // Небольшая задержка между запросами
-                    await new Promise((resolve) => setTimeout(resolve, 10));
-                }
+            // Общий планировщик: параллельность, паузы между страницами, замедление при капче и HTTP 429
+            const scheduler = createCrawlScheduler();
+            const stopPacing = onRateLimited((reason) => scheduler.slowDown(reason));
+            const withUrls = allBranches.filter((branch) => branch.changesUrl);
+            let processed = 0;
+
+            try {
+                await Promise.all(
+                    withUrls.map((branch) =>
+                        scheduler.schedule(async () => {
+                            if (!branch.changesUrl) return;
+                            try {
+                                const result = await fetchSimpleBranchChanges(branch.changesUrl);
+                                branch.changesHistory = result.changes;
+                                branch.checkStatus = result.checkStatus;
+                                branch.checkError = result.checkError;
+                            } catch (error) {
+                                const errMsg = error instanceof Error ? error.message : String(error);
+                                console.error(`   ❌ Ошибка: ${errMsg}`);
+                                branch.changesHistory = [];
+                                branch.checkStatus = "failed";
+                                branch.checkError = errMsg;
+                            }
+                            processed++;
+                            console.log(`   [${processed}/${withUrls.length}] ${branch.name || branch.id}`);
+                        })
+                    )
+                );
+            } finally {
+                stopPacing();
             }
 
-            console.log(`✅ История изменений загружена для всех филиалов`);
+            const summary = summarizeCheckStatuses(withUrls.map((b) => b.checkStatus));
+            console.log(`✅ История изменений загружена`);
+            formatCheckSummaryLines(summary, env.CHECK_MIN_COVERAGE).forEach((line) => console.log(`   ${line}`));
+            console.log(`   ${formatCrawlStats(scheduler.stats())}`);
         }
 
         return allBranches;